@@ -6,9 +6,10 @@ import fragmentShader from './main.frag?raw';
 const shader = new ShaderUp({
   // Automatically finds the first <canvas> element on the page
   fragmentShader: fragmentShader,
+  // Feeds u_mouse (and friends) in the same pixel space as gl_FragCoord
+  input: true,
   uniforms: {
     // Register custom uniforms and their types
-    u_mouse: 'vec2',
     u_color: 'vec4',
   },
   onResize: (width, height) => {
@@ -19,16 +20,10 @@ const shader = new ShaderUp({
 // --- 2. Set Initial Uniform Values ---
 shader.uniforms.u_color = [0.2, 0.5, 1.0, 1.0]; // A nice blue color
 
-// --- 3. Add Event Listeners ---
-window.addEventListener('mousemove', (e) => {
-  // Update the u_mouse uniform with the current mouse position
-  shader.uniforms.u_mouse = [e.clientX, e.clientY];
-});
-
-// --- 4. Start the Render Loop ---
+// --- 3. Start the Render Loop ---
 shader.start();
 
-// --- 5. Clean up on Hot Module Replacement (for development) ---
+// --- 4. Clean up on Hot Module Replacement (for development) ---
 if (import.meta.hot) {
   import.meta.hot.dispose(() => {
     shader.dispose();
@@ -30,21 +30,9 @@ const shader = ShaderUp.fromElements({
   vertexShader,
   attributes: {
     // 'a_instanceRect' is handled automatically by the factory.
-    // We only need to define our custom 'a_hoverState' attribute.
-    'a_hoverState': { size: 1, instanced: true },
+    // 'a_hoverState' follows the pointer: 1 while the button is hovered.
+    'a_hoverState': { size: 1, instanced: true, source: 'input:hover' },
   },
-  onUpdate: (data, elements, stride) => {
-    // This function is called every frame before rendering.
-    // We can use it to update our custom per-instance data.
-    for (let i = 0; i < elements.length; i++) {
-        const ptr = i * stride;
-        const isHovering = elements[i].matches(':hover');
-        
-        // The factory handles the first 4 floats (the rect).
-        // Our custom data comes after that.
-        data[ptr + 4] = isHovering ? 1.0 : 0.0; // a_hoverState
-    }
-  }
 });
 
 // 3. Start the render loop
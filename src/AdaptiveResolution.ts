@@ -0,0 +1,71 @@
+export interface AdaptiveResolutionOptions {
+  /** Frame rate to hold. Defaults to 60. */
+  targetFps?: number;
+  /** Lowest render scale to drop to. Defaults to 0.5. */
+  minScale?: number;
+  /** Highest render scale to climb back to. Defaults to 1. */
+  maxScale?: number;
+}
+
+// Frame time is averaged over roughly the last 20 frames
+const SMOOTHING = 0.05;
+// Over budget by 15%: step down. Within 5% of budget: headroom to step up.
+const DOWNGRADE_THRESHOLD = 1.15;
+const UPGRADE_THRESHOLD = 1.05;
+const DOWNGRADE_FACTOR = 0.85;
+const UPGRADE_FACTOR = 1.1;
+// Step down quickly, step up cautiously, to avoid oscillating around the limit
+const DOWNGRADE_DELAY = 500;
+const UPGRADE_DELAY = 3000;
+
+/**
+ * Picks a render scale from measured frame times: lowers it when frames go over budget
+ * and raises it again when there is headroom.
+ */
+export class AdaptiveResolution {
+  public scale: number;
+
+  private readonly budget: number;
+  private readonly minScale: number;
+  private readonly maxScale: number;
+  private averageFrameTime: number | null = null;
+  private lastChange = 0;
+
+  constructor(initialScale: number, options: AdaptiveResolutionOptions = {}) {
+    this.budget = 1000 / (options.targetFps ?? 60);
+    this.minScale = options.minScale ?? 0.5;
+    this.maxScale = options.maxScale ?? 1;
+    this.scale = Math.min(this.maxScale, Math.max(this.minScale, initialScale));
+  }
+
+  /**
+   * Records a frame and returns the new scale if it changed, or null.
+   * @param frameTime Milliseconds since the previous frame.
+   * @param now Current timestamp in milliseconds.
+   */
+  public update(frameTime: number, now: number): number | null {
+    // Ignore gaps from stopped loops or background tabs
+    if (frameTime <= 0 || frameTime > 250) return null;
+
+    this.averageFrameTime = this.averageFrameTime === null
+      ? frameTime
+      : this.averageFrameTime + (frameTime - this.averageFrameTime) * SMOOTHING;
+
+    const sinceChange = now - this.lastChange;
+    let next = this.scale;
+
+    if (this.averageFrameTime > this.budget * DOWNGRADE_THRESHOLD && sinceChange > DOWNGRADE_DELAY) {
+      next = Math.max(this.minScale, this.scale * DOWNGRADE_FACTOR);
+    } else if (this.averageFrameTime < this.budget * UPGRADE_THRESHOLD && sinceChange > UPGRADE_DELAY) {
+      next = Math.min(this.maxScale, this.scale * UPGRADE_FACTOR);
+    }
+
+    if (next === this.scale) return null;
+
+    this.scale = next;
+    this.lastChange = now;
+    // Measurements at the old resolution no longer apply
+    this.averageFrameTime = null;
+    return next;
+  }
+}
@@ -0,0 +1,428 @@
+/** A scalar or vector value to animate, e.g. a uniform or an instance attribute. */
+export type AnimationValue = number | ArrayLike<number>;
+
+export type EasingName = 'linear' | 'ease-in' | 'ease-out' | 'ease-in-out' | 'ease-out-back';
+
+/** A named easing, or a function mapping progress in [0, 1] to eased progress. */
+export type Easing = EasingName | ((t: number) => number);
+
+export interface TweenOptions {
+  /** Seconds from the current value to the target. Defaults to 0.3. */
+  duration?: number;
+  /** Defaults to 'ease-in-out'. */
+  easing?: Easing;
+  /** Seconds to wait before starting. Defaults to 0. */
+  delay?: number;
+}
+
+export interface SpringOptions {
+  /** Pull towards the target. Higher is snappier. Defaults to 170. */
+  stiffness?: number;
+  /** Resistance to motion. Lower values overshoot and wobble. Defaults to 26. */
+  damping?: number;
+  /** Defaults to 1. */
+  mass?: number;
+  /** Distance and speed below which the spring comes to rest. Defaults to 0.001. */
+  precision?: number;
+}
+
+/** Eases a value with a duration (a tween) or physically (a spring, when any spring option is set). */
+export type Transition = TweenOptions | SpringOptions;
+
+export interface Keyframe {
+  /** Seconds from the start of the track. */
+  time: number;
+  value: AnimationValue;
+  /** Easing from the previous keyframe into this one. Defaults to the track's `easing`. */
+  easing?: Easing;
+}
+
+export interface KeyframeOptions {
+  /** Easing between keyframes. Defaults to 'linear'. */
+  easing?: Easing;
+  /** Seconds to wait before starting. Defaults to 0. */
+  delay?: number;
+  /** `true` to repeat forever, or how many times to play. Defaults to playing once. */
+  loop?: boolean | number;
+}
+
+/** Returned by `animate()`, `spring()` and `keyframes()`. */
+export interface AnimationHandle {
+  /** Resolves with true once the animation completes, or with false if it is cancelled or replaced. */
+  finished: Promise<boolean>;
+  /** Stops the animation, leaving the value where it is. */
+  cancel(): void;
+}
+
+const EASINGS: { [name in EasingName]: (t: number) => number } = {
+  'linear': t => t,
+  'ease-in': t => t * t * t,
+  'ease-out': t => 1 - (1 - t) ** 3,
+  'ease-in-out': t => (t < 0.5 ? 4 * t * t * t : 1 - (-2 * t + 2) ** 3 / 2),
+  'ease-out-back': t => 1 + 2.70158 * (t - 1) ** 3 + 1.70158 * (t - 1) ** 2,
+};
+
+// Springs integrate in steps of at most this many seconds, and skip ahead at most MAX_SPRING_DELTA
+// per frame, so they stay stable at low frame rates and after long stalls
+const SPRING_SUBSTEP = 1 / 240;
+const MAX_SPRING_DELTA = 1 / 15;
+
+/**
+ * Seconds since the first step. When time runs backwards (a `seek()` to an earlier time, or a negative
+ * `playbackRate`), it holds rather than going negative, so animations pick up where they were.
+ */
+class LocalClock {
+  private startTime: number | null = null;
+  private lastTime = 0;
+
+  public elapsed(time: number): number {
+    if (this.startTime === null) {
+      this.startTime = time;
+    } else if (time < this.lastTime) {
+      this.startTime -= this.lastTime - time;
+    }
+    this.lastTime = time;
+    return time - this.startTime;
+  }
+}
+
+/** Moves a value over time. Tweens and tracks start at the time of their first step. */
+interface AnimationDriver {
+  /** The current value. */
+  readonly value: number[];
+  /** Where the value ends up. */
+  readonly target: number[];
+  /**
+   * Advances to a frame.
+   * @returns Whether the animation has finished.
+   */
+  step(time: number, delta: number): boolean;
+}
+
+class Tween implements AnimationDriver {
+  public readonly value: number[];
+  public readonly target: number[];
+  private readonly from: number[];
+  private readonly duration: number;
+  private readonly delay: number;
+  private readonly easing: (t: number) => number;
+  private readonly clock = new LocalClock();
+
+  constructor(from: number[], target: number[], options: TweenOptions) {
+    this.from = from;
+    this.value = [...from];
+    this.target = target;
+    this.duration = options.duration ?? 0.3;
+    this.delay = options.delay ?? 0;
+    this.easing = resolveEasing(options.easing ?? 'ease-in-out');
+  }
+
+  public step(time: number): boolean {
+    const elapsed = this.clock.elapsed(time) - this.delay;
+    const progress = this.duration > 0 ? clamp(elapsed / this.duration, 0, 1) : elapsed >= 0 ? 1 : 0;
+    lerp(this.from, this.target, this.easing(progress), this.value);
+    return progress >= 1;
+  }
+}
+
+class Spring implements AnimationDriver {
+  public readonly value: number[];
+  public target: number[];
+  public readonly velocity: number[];
+  private readonly stiffness: number;
+  private readonly damping: number;
+  private readonly mass: number;
+  private readonly precision: number;
+
+  /**
+   * @param velocity Initial velocity per component, e.g. of a spring this one replaces. Defaults to rest.
+   */
+  constructor(from: number[], target: number[], options: SpringOptions, velocity?: number[]) {
+    this.value = [...from];
+    this.target = target;
+    this.velocity = velocity?.length === from.length ? [...velocity] : from.map(() => 0);
+    this.stiffness = options.stiffness ?? 170;
+    this.damping = options.damping ?? 26;
+    this.mass = options.mass ?? 1;
+    this.precision = options.precision ?? 1e-3;
+  }
+
+  public step(_time: number, delta: number): boolean {
+    // Backwards playback holds springs rather than running them in reverse
+    let remaining = Math.min(Math.max(delta, 0), MAX_SPRING_DELTA);
+    while (remaining > 0) {
+      const dt = Math.min(remaining, SPRING_SUBSTEP);
+      remaining -= dt;
+      for (let i = 0; i < this.value.length; i++) {
+        const force = -this.stiffness * (this.value[i] - this.target[i]) - this.damping * this.velocity[i];
+        this.velocity[i] += (force / this.mass) * dt;
+        this.value[i] += this.velocity[i] * dt;
+      }
+    }
+
+    const isResting = this.value.every((v, i) =>
+      Math.abs(v - this.target[i]) < this.precision && Math.abs(this.velocity[i]) < this.precision
+    );
+    if (isResting) {
+      this.value.splice(0, this.value.length, ...this.target);
+      this.velocity.fill(0);
+    }
+    return isResting;
+  }
+}
+
+class KeyframeTrack implements AnimationDriver {
+  public readonly value: number[];
+  public readonly target: number[];
+  private readonly keyframes: { time: number; value: number[]; easing: (t: number) => number }[];
+  private readonly duration: number;
+  private readonly delay: number;
+  private readonly plays: number;
+  private readonly clock = new LocalClock();
+
+  constructor(keyframes: Keyframe[], options: KeyframeOptions) {
+    const easing = options.easing ?? 'linear';
+    this.keyframes = [...keyframes]
+      .sort((a, b) => a.time - b.time)
+      .map(keyframe => ({ time: keyframe.time, value: toComponents(keyframe.value), easing: resolveEasing(keyframe.easing ?? easing) }));
+    this.value = [...this.keyframes[0].value];
+    this.target = this.keyframes[this.keyframes.length - 1].value;
+    this.duration = this.keyframes[this.keyframes.length - 1].time;
+    this.delay = options.delay ?? 0;
+    this.plays = options.loop === true ? Infinity : Math.max(1, options.loop || 1);
+  }
+
+  public step(time: number): boolean {
+    const elapsed = Math.max(this.clock.elapsed(time) - this.delay, 0);
+    const isFinished = this.duration <= 0 || elapsed >= this.duration * this.plays;
+    const local = isFinished ? this.duration : elapsed % this.duration;
+
+    const frames = this.keyframes;
+    let next = frames.findIndex(keyframe => keyframe.time > local);
+    if (next === -1) next = frames.length - 1;
+    if (next === 0) {
+      this.value.splice(0, this.value.length, ...frames[0].value);
+    } else {
+      const a = frames[next - 1];
+      const b = frames[next];
+      const progress = b.time > a.time ? clamp((local - a.time) / (b.time - a.time), 0, 1) : 1;
+      lerp(a.value, b.value, b.easing(progress), this.value);
+    }
+    return isFinished;
+  }
+}
+
+interface AnimationEntry {
+  driver: AnimationDriver;
+  /** Scalars are reported as numbers, vectors as arrays. */
+  isScalar: boolean;
+  /** Springs bound with `spring()` stay after coming to rest, to follow new targets. */
+  isPersistent: boolean;
+  isDone: boolean;
+  settle: ((completed: boolean) => void) | null;
+}
+
+/**
+ * Runs tweens, springs and keyframe tracks on the `ShaderUp` clock, one per key:
+ * uniform names for `animate()` and friends, elements for attribute `transition`s in `fromElements`.
+ */
+export class Animator<K> {
+  private readonly onChange: () => void;
+  private readonly entries: Map<K, AnimationEntry> = new Map();
+  /** The last value of every key, for transitions that start from it. */
+  private readonly values: Map<K, number[]> = new Map();
+  /** Values to report on the next update without animating. */
+  private readonly immediate: Map<K, number[]> = new Map();
+
+  /**
+   * @param onChange Called when an animation starts or keeps running and a frame should be drawn.
+   */
+  constructor(onChange: () => void) {
+    this.onChange = onChange;
+  }
+
+  /**
+   * Tweens `key` from `from` (or the target, if it has a different shape) to `target`.
+   */
+  public tween(key: K, from: AnimationValue | undefined, target: AnimationValue, options: TweenOptions = {}): AnimationHandle {
+    const to = toComponents(target);
+    return this.start(key, new Tween(matchShape(from, to), to, options), typeof target === 'number');
+  }
+
+  /**
+   * Binds a spring to `key`, starting at `from` and heading for `target` (or staying put without one).
+   * It stays bound after coming to rest, and `retarget()` sets where it heads next.
+   * Replacing a spring keeps its velocity, so changing options or targets mid-flight stays smooth.
+   */
+  public spring(key: K, from: AnimationValue | undefined, target: AnimationValue | undefined, options: SpringOptions = {}): AnimationHandle {
+    const shape = target ?? from ?? 0;
+    const to = toComponents(shape);
+    const previous = this.entries.get(key)?.driver;
+    const velocity = previous instanceof Spring ? previous.velocity : undefined;
+    return this.start(key, new Spring(matchShape(from, to), to, options, velocity), typeof shape === 'number', true);
+  }
+
+  /**
+   * Plays a keyframe track on `key`.
+   * @throws Error if there are no keyframes or their values differ in size.
+   */
+  public keyframes(key: K, keyframes: Keyframe[], options: KeyframeOptions = {}): AnimationHandle {
+    if (keyframes.length === 0) {
+      throw new Error('[ShaderUp] A keyframe track needs at least one keyframe.');
+    }
+    const size = toComponents(keyframes[0].value).length;
+    if (keyframes.some(keyframe => toComponents(keyframe.value).length !== size)) {
+      throw new Error('[ShaderUp] All keyframes of a track must have values of the same size.');
+    }
+    return this.start(key, new KeyframeTrack(keyframes, options), typeof keyframes[0].value === 'number');
+  }
+
+  /**
+   * Sets the target of the spring bound to `key`.
+   * @returns Whether a spring was bound; other animations are left alone.
+   */
+  public retarget(key: K, target: AnimationValue): boolean {
+    const entry = this.entries.get(key);
+    if (!entry || !(entry.driver instanceof Spring)) return false;
+    const to = toComponents(target);
+    if (to.length !== entry.driver.value.length) return false;
+
+    entry.driver.target = to;
+    entry.isDone = false;
+    this.onChange();
+    return true;
+  }
+
+  /**
+   * Moves `key` to `target` with a transition, e.g. when an element's attribute source changes.
+   * The first value of a key is taken as-is rather than animated in.
+   */
+  public transitionTo(key: K, target: number[], transition: Transition): void {
+    const previous = this.values.get(key);
+    if (!previous || previous.length !== target.length) {
+      this.values.set(key, target);
+      this.immediate.set(key, target);
+      return;
+    }
+
+    const entry = this.entries.get(key);
+    if (isSpringTransition(transition)) {
+      if (this.retarget(key, target)) return;
+      if (equals(previous, target)) return;
+      this.spring(key, previous, target, transition);
+    } else {
+      if (equals(entry ? entry.driver.target : previous, target)) return;
+      this.tween(key, entry ? entry.driver.value : previous, target, transition);
+    }
+  }
+
+  /**
+   * Advances every running animation.
+   * @returns The keys whose values changed, with their new values.
+   */
+  public update(time: number, delta: number): Map<K, number | number[]> {
+    const changed = new Map<K, number | number[]>(this.immediate);
+    this.immediate.clear();
+    let isRunning = false;
+
+    for (const [key, entry] of this.entries) {
+      if (entry.isDone) continue;
+      entry.isDone = entry.driver.step(time, delta);
+      const value = [...entry.driver.value];
+      this.values.set(key, value);
+      changed.set(key, entry.isScalar ? value[0] : value);
+
+      if (!entry.isDone) {
+        isRunning = true;
+        continue;
+      }
+      entry.settle?.(true);
+      entry.settle = null;
+      if (!entry.isPersistent) this.entries.delete(key);
+    }
+
+    // Keep frames coming while anything moves. Deferred, since this runs during a frame.
+    if (isRunning) queueMicrotask(this.onChange);
+    return changed;
+  }
+
+  /** Stops the animation of `key`, if any, leaving its value where it is. */
+  public cancel(key: K): void {
+    const entry = this.entries.get(key);
+    if (!entry) return;
+    this.entries.delete(key);
+    entry.settle?.(false);
+  }
+
+  /** Cancels the animations and forgets the values of keys that are not in `keys`. */
+  public retain(keys: Set<K>): void {
+    for (const key of this.values.keys()) {
+      if (keys.has(key)) continue;
+      this.cancel(key);
+      this.values.delete(key);
+      this.immediate.delete(key);
+    }
+  }
+
+  /** The last value of `key`, or undefined before it has one. */
+  public get(key: K): number[] | undefined {
+    return this.values.get(key);
+  }
+
+  /** Cancels every animation. */
+  public dispose(): void {
+    for (const key of [...this.entries.keys()]) this.cancel(key);
+    this.values.clear();
+    this.immediate.clear();
+  }
+
+  private start(key: K, driver: AnimationDriver, isScalar: boolean, isPersistent = false): AnimationHandle {
+    this.cancel(key);
+    let settle!: (completed: boolean) => void;
+    const finished = new Promise<boolean>(resolve => (settle = resolve));
+    const entry: AnimationEntry = { driver, isScalar, isPersistent, isDone: false, settle };
+    this.entries.set(key, entry);
+    this.onChange();
+
+    return {
+      finished,
+      cancel: () => {
+        if (this.entries.get(key) === entry) this.cancel(key);
+      },
+    };
+  }
+}
+
+function isSpringTransition(transition: Transition): transition is SpringOptions {
+  return 'stiffness' in transition || 'damping' in transition || 'mass' in transition || 'precision' in transition;
+}
+
+function resolveEasing(easing: Easing): (t: number) => number {
+  if (typeof easing === 'function') return easing;
+  const fn = EASINGS[easing];
+  if (!fn) throw new Error(`[ShaderUp] Unknown easing "${easing}".`);
+  return fn;
+}
+
+function toComponents(value: AnimationValue): number[] {
+  return typeof value === 'number' ? [value] : Array.from(value);
+}
+
+/** The components of `value` if it has the shape of `target`, otherwise a copy of `target`. */
+function matchShape(value: AnimationValue | undefined, target: number[]): number[] {
+  if (value === undefined) return [...target];
+  const components = toComponents(value);
+  return components.length === target.length ? components : [...target];
+}
+
+function lerp(a: number[], b: number[], t: number, out: number[]): void {
+  for (let i = 0; i < out.length; i++) out[i] = a[i] + (b[i] - a[i]) * t;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
+
+function equals(a: number[], b: number[]): boolean {
+  return a.length === b.length && a.every((v, i) => v === b[i]);
+}
@@ -0,0 +1,98 @@
+/**
+ * The time values a frame is rendered with.
+ */
+export interface FrameTime {
+  /** Playback time in seconds. */
+  time: number;
+  /** Seconds since the previous frame. */
+  delta: number;
+  /** Frame index, starting at 0. */
+  frame: number;
+}
+
+/**
+ * Playback clock driving `u_time`, `u_deltaTime` and `u_frame`.
+ * Time is measured in seconds from 0 and only advances while the loop runs and the clock is not paused.
+ */
+export class Clock implements FrameTime {
+  /** Current playback time in seconds. */
+  public time = 0;
+  /** Time advanced by the last tick, in seconds. */
+  public delta = 0;
+  /** Index of the current frame, starting at 0. */
+  public frame = 0;
+  /** Speed multiplier. 0.5 plays at half speed; negative values play backwards. */
+  public playbackRate: number;
+  /**
+   * When set, every tick advances by exactly this many seconds (times `playbackRate`),
+   * regardless of real elapsed time. Makes frame sequences reproducible.
+   */
+  public fixedTimestep: number | null;
+
+  private paused = false;
+  private lastTimestamp: number | null = null;
+  // The first frame, and the frame after a seek, render exactly at `time`
+  private holdNextTick = true;
+
+  constructor(options: { playbackRate?: number; fixedTimestep?: number } = {}) {
+    this.playbackRate = options.playbackRate ?? 1;
+    this.fixedTimestep = options.fixedTimestep ?? null;
+  }
+
+  public get isPaused(): boolean {
+    return this.paused;
+  }
+
+  /**
+   * Advances the clock to a `requestAnimationFrame` timestamp (milliseconds).
+   */
+  public tick(timestamp: number): void {
+    const elapsed = this.lastTimestamp === null ? 0 : (timestamp - this.lastTimestamp) * 0.001;
+    this.lastTimestamp = timestamp;
+
+    if (this.paused || this.holdNextTick) {
+      if (!this.paused) this.holdNextTick = false;
+      this.delta = 0;
+      return;
+    }
+
+    this.delta = (this.fixedTimestep ?? elapsed) * this.playbackRate;
+    this.time += this.delta;
+    this.frame++;
+  }
+
+  /**
+   * Forgets the last timestamp, so the next tick does not count the time spent stopped.
+   */
+  public resetOrigin(): void {
+    this.lastTimestamp = null;
+  }
+
+  public pause(): void {
+    this.paused = true;
+  }
+
+  public resume(): void {
+    this.paused = false;
+  }
+
+  /**
+   * Jumps to a playback time in seconds.
+   */
+  public seek(time: number): void {
+    this.time = time;
+    this.delta = 0;
+    this.holdNextTick = true;
+  }
+
+  /**
+   * Rewinds time and the frame counter to 0.
+   */
+  public reset(): void {
+    this.time = 0;
+    this.delta = 0;
+    this.frame = 0;
+    this.lastTimestamp = null;
+    this.holdNextTick = true;
+  }
+}
@@ -0,0 +1,226 @@
+import type { InputSource } from './attributes';
+
+/** An attribute filled from the pointer state of each element, e.g. `a_hover` from `input:hover`. */
+export interface InputBinding {
+  name: string;
+  source: InputSource;
+  size: number;
+  /** Seconds to ease towards a new value, 0 to follow it immediately. */
+  smoothing: number;
+}
+
+// Differences below this snap to the target, so smoothed values settle
+const SETTLE_EPSILON = 1e-3;
+
+/**
+ * Tracks the interaction state of elements for `fromElements`:
+ * - 'input:hover': 1 while the pointer is over the element
+ * - 'input:press': 1 while a press that started on the element is held
+ * - 'input:focus': 1 while the element or one of its descendants has focus
+ * - 'input:pointer': the pointer position within the element, 0..1 from its top-left corner
+ */
+export class ElementInput {
+  private readonly bindings: InputBinding[];
+  private readonly onChange: () => void;
+  private readonly hasPointerBinding: boolean;
+  private hovered: Set<HTMLElement> = new Set();
+  private pressed: Set<HTMLElement> = new Set();
+  private focused: Set<HTMLElement> = new Set();
+  private pointer: [number, number] | null = null;
+  private values: Map<HTMLElement, Map<string, number[]>> = new Map();
+  private tracked: HTMLElement[] = [];
+  private lastUpdate: number | null = null;
+
+  /**
+   * @param onChange Called when the state changes and a frame should be drawn.
+   */
+  constructor(bindings: InputBinding[], onChange: () => void) {
+    this.bindings = bindings;
+    this.onChange = onChange;
+    this.hasPointerBinding = bindings.some(b => b.source === 'input:pointer');
+
+    window.addEventListener('pointermove', this.handlePointerMove, { passive: true });
+    window.addEventListener('pointerup', this.handlePointerUp, { passive: true });
+    window.addEventListener('pointercancel', this.handlePointerUp, { passive: true });
+  }
+
+  /**
+   * Moves every value towards its current target.
+   * @param elements The elements currently drawn.
+   * @param getRect Client rect of an element, for 'input:pointer'.
+   * @param now Timestamp in milliseconds, used for the smoothing.
+   * @returns The elements whose values changed.
+   */
+  public update(
+    elements: HTMLElement[],
+    getRect: (el: HTMLElement) => DOMRect | undefined,
+    now: number
+  ): Set<HTMLElement> {
+    if (elements !== this.tracked) this.track(elements);
+
+    const dt = this.lastUpdate === null ? 0 : (now - this.lastUpdate) / 1000;
+    this.lastUpdate = now;
+
+    const changed = new Set<HTMLElement>();
+    let isSettling = false;
+
+    for (const el of elements) {
+      let cached = this.values.get(el);
+      const isNew = !cached;
+      if (!cached) {
+        cached = new Map();
+        this.values.set(el, cached);
+      }
+
+      for (const binding of this.bindings) {
+        const target = this.getTarget(el, binding, getRect);
+        const previous = cached.get(binding.name);
+
+        // New elements start at their current state rather than easing in from zero
+        if (isNew || !previous) {
+          cached.set(binding.name, target);
+          changed.add(el);
+          continue;
+        }
+
+        const blend = binding.smoothing > 0 ? 1 - Math.exp(-dt / binding.smoothing) : 1;
+        let didChange = false;
+        for (let i = 0; i < target.length; i++) {
+          const diff = target[i] - previous[i];
+          if (diff === 0) continue;
+          previous[i] = Math.abs(diff) < SETTLE_EPSILON ? target[i] : previous[i] + diff * blend;
+          if (previous[i] !== target[i]) isSettling = true;
+          didChange = true;
+        }
+        if (didChange) changed.add(el);
+      }
+    }
+
+    // Keep frames coming while values ease. Deferred, since this runs during a frame.
+    if (isSettling) queueMicrotask(this.onChange);
+    return changed;
+  }
+
+  /** The current (smoothed) values for an element's attribute. */
+  public get(el: HTMLElement, name: string): number[] | undefined {
+    return this.values.get(el)?.get(name);
+  }
+
+  public dispose(): void {
+    window.removeEventListener('pointermove', this.handlePointerMove);
+    window.removeEventListener('pointerup', this.handlePointerUp);
+    window.removeEventListener('pointercancel', this.handlePointerUp);
+    this.track([]);
+  }
+
+  private getTarget(
+    el: HTMLElement,
+    binding: InputBinding,
+    getRect: (el: HTMLElement) => DOMRect | undefined
+  ): number[] {
+    const target = new Array(binding.size).fill(0);
+    switch (binding.source) {
+      case 'input:hover':
+        target[0] = this.hovered.has(el) ? 1 : 0;
+        break;
+      case 'input:press':
+        target[0] = this.pressed.has(el) ? 1 : 0;
+        break;
+      case 'input:focus':
+        target[0] = this.focused.has(el) ? 1 : 0;
+        break;
+      case 'input:pointer': {
+        const rect = getRect(el);
+        if (!this.pointer || !rect || rect.width === 0 || rect.height === 0) break;
+        target[0] = (this.pointer[0] - rect.left) / rect.width;
+        if (binding.size > 1) target[1] = (this.pointer[1] - rect.top) / rect.height;
+        break;
+      }
+    }
+    return target;
+  }
+
+  /** Starts listening to new elements and forgets removed ones. */
+  private track(elements: HTMLElement[]): void {
+    const next = new Set(elements);
+    for (const el of this.tracked) {
+      if (next.has(el)) continue;
+      this.toggleListeners(el, false);
+      this.values.delete(el);
+      this.hovered.delete(el);
+      this.pressed.delete(el);
+      this.focused.delete(el);
+    }
+
+    const previous = new Set(this.tracked);
+    for (const el of elements) {
+      if (previous.has(el)) continue;
+      this.toggleListeners(el, true);
+      // Elements can appear under the pointer or already focused, without an event
+      if (el.matches(':hover')) this.hovered.add(el);
+      if (el.matches(':focus-within')) this.focused.add(el);
+    }
+    this.tracked = elements;
+  }
+
+  private toggleListeners(el: HTMLElement, add: boolean): void {
+    if (add) {
+      el.addEventListener('pointerenter', this.handlePointerEnter);
+      el.addEventListener('pointerleave', this.handlePointerLeave);
+      el.addEventListener('pointerdown', this.handlePointerDown);
+      el.addEventListener('focusin', this.handleFocusIn);
+      el.addEventListener('focusout', this.handleFocusOut);
+    } else {
+      el.removeEventListener('pointerenter', this.handlePointerEnter);
+      el.removeEventListener('pointerleave', this.handlePointerLeave);
+      el.removeEventListener('pointerdown', this.handlePointerDown);
+      el.removeEventListener('focusin', this.handleFocusIn);
+      el.removeEventListener('focusout', this.handleFocusOut);
+    }
+  }
+
+  private setState(set: Set<HTMLElement>, el: HTMLElement, active: boolean): void {
+    if (set.has(el) === active) return;
+    if (active) {
+      set.add(el);
+    } else {
+      set.delete(el);
+    }
+    this.onChange();
+  }
+
+  private handlePointerEnter = (e: PointerEvent): void => {
+    this.setState(this.hovered, e.currentTarget as HTMLElement, true);
+  };
+
+  private handlePointerLeave = (e: PointerEvent): void => {
+    this.setState(this.hovered, e.currentTarget as HTMLElement, false);
+  };
+
+  private handlePointerDown = (e: PointerEvent): void => {
+    if (e.isPrimary) this.setState(this.pressed, e.currentTarget as HTMLElement, true);
+  };
+
+  private handleFocusIn = (e: FocusEvent): void => {
+    this.setState(this.focused, e.currentTarget as HTMLElement, true);
+  };
+
+  private handleFocusOut = (e: FocusEvent): void => {
+    // Focus moving between descendants keeps the element focused
+    const el = e.currentTarget as HTMLElement;
+    if (e.relatedTarget instanceof Node && el.contains(e.relatedTarget)) return;
+    this.setState(this.focused, el, false);
+  };
+
+  private handlePointerMove = (e: PointerEvent): void => {
+    if (!e.isPrimary) return;
+    this.pointer = [e.clientX, e.clientY];
+    if (this.hasPointerBinding) this.onChange();
+  };
+
+  private handlePointerUp = (e: PointerEvent): void => {
+    if (!e.isPrimary || this.pressed.size === 0) return;
+    this.pressed.clear();
+    this.onChange();
+  };
+}
@@ -0,0 +1,271 @@
+import type { AttributeSource, InputSource } from './attributes';
+
+/** Sources read from the element itself; 'input:*' sources are handled by `ElementInput`. */
+export type ElementSource = Exclude<AttributeSource, InputSource>;
+
+/** An attribute filled from the elements, e.g. `a_instanceColor` from `css:--shader-color`. */
+export interface SourceBinding {
+  name: string;
+  source: ElementSource;
+  size: number;
+}
+
+interface ParsedSource {
+  kind: 'css' | 'data';
+  /** The custom property ('--shader-color') or the attribute ('data-effect'). */
+  key: string;
+}
+
+// Interactions that can change which CSS rules apply to an element
+const STYLE_EVENTS = ['pointerenter', 'pointerleave', 'focusin', 'focusout'];
+const ANIMATION_START_EVENTS = ['transitionrun', 'animationstart'];
+const ANIMATION_END_EVENTS = ['transitionend', 'transitioncancel', 'animationend', 'animationcancel'];
+
+/**
+ * Reads `source` attributes from elements for `fromElements`. Values are cached and
+ * re-read only after something that can change them: attribute mutations (class and style
+ * changes on ancestors included, as custom properties inherit), pointer and focus changes,
+ * and every frame while a transition or animation runs on the element.
+ */
+export class ElementSources {
+  private readonly bindings: (SourceBinding & ParsedSource)[];
+  private readonly onChange: () => void;
+  private readonly hasCssBinding: boolean;
+  private readonly mutationObserver: MutationObserver;
+  private values: Map<HTMLElement, Map<string, number[]>> = new Map();
+  private stale: Set<HTMLElement> = new Set();
+  // Running transitions and animations per element
+  private animating: Map<HTMLElement, number> = new Map();
+  private tracked: HTMLElement[] = [];
+  private trackedSet: Set<HTMLElement> = new Set();
+  private warned: Set<string> = new Set();
+
+  /**
+   * @param onChange Called when values may have changed and a frame should be drawn.
+   */
+  constructor(bindings: SourceBinding[], onChange: () => void) {
+    this.bindings = bindings.map(binding => ({ ...binding, ...parseSource(binding.source) }));
+    this.onChange = onChange;
+    this.hasCssBinding = this.bindings.some(b => b.kind === 'css');
+
+    const attributeFilter = ['class', 'style', ...this.bindings.filter(b => b.kind === 'data').map(b => b.key)];
+    this.mutationObserver = new MutationObserver(this.handleMutations);
+    this.mutationObserver.observe(document.documentElement, { attributes: true, attributeFilter, subtree: true });
+  }
+
+  /**
+   * Re-reads the values that may have changed.
+   * @param elements The elements currently drawn.
+   * @param everyFrame Re-reads every element regardless.
+   * @returns The elements whose values changed.
+   */
+  public update(elements: HTMLElement[], everyFrame: boolean): Set<HTMLElement> {
+    if (elements !== this.tracked) this.track(elements);
+
+    const changed = new Set<HTMLElement>();
+    const toRead = everyFrame ? elements : [...this.stale, ...this.animating.keys()];
+    this.stale.clear();
+
+    for (const el of toRead) {
+      if (this.read(el)) changed.add(el);
+    }
+
+    // Keep frames coming while values are animating. Deferred, since this runs during a frame.
+    if (this.animating.size > 0) queueMicrotask(this.onChange);
+    return changed;
+  }
+
+  /** The last values read for an element's attribute. */
+  public get(el: HTMLElement, name: string): number[] | undefined {
+    return this.values.get(el)?.get(name);
+  }
+
+  public dispose(): void {
+    this.mutationObserver.disconnect();
+    this.track([]);
+  }
+
+  /** Starts listening to new elements and forgets removed ones. */
+  private track(elements: HTMLElement[]): void {
+    const next = new Set(elements);
+    for (const el of this.tracked) {
+      if (next.has(el)) continue;
+      this.toggleListeners(el, false);
+      this.values.delete(el);
+      this.stale.delete(el);
+      this.animating.delete(el);
+    }
+
+    const previous = new Set(this.tracked);
+    for (const el of elements) {
+      if (previous.has(el)) continue;
+      this.toggleListeners(el, true);
+      this.stale.add(el);
+    }
+    this.tracked = elements;
+    this.trackedSet = next;
+  }
+
+  private toggleListeners(el: HTMLElement, add: boolean): void {
+    const method = add ? 'addEventListener' : 'removeEventListener';
+    for (const type of STYLE_EVENTS) el[method](type, this.handleStyleEvent);
+    for (const type of ANIMATION_START_EVENTS) el[method](type, this.handleAnimationStart);
+    for (const type of ANIMATION_END_EVENTS) el[method](type, this.handleAnimationEnd);
+  }
+
+  /**
+   * Reads every binding of an element.
+   * @returns Whether any value differs from the cached one.
+   */
+  private read(el: HTMLElement): boolean {
+    let cached = this.values.get(el);
+    if (!cached) {
+      cached = new Map();
+      this.values.set(el, cached);
+    }
+
+    const style = this.hasCssBinding ? getComputedStyle(el) : null;
+    let changed = false;
+
+    for (const binding of this.bindings) {
+      const text = binding.kind === 'css' ? style!.getPropertyValue(binding.key) : el.getAttribute(binding.key) ?? '';
+      const value = this.parse(text, binding);
+      const previous = cached.get(binding.name);
+      if (previous && value.length === previous.length && value.every((v, i) => v === previous[i])) continue;
+
+      cached.set(binding.name, value);
+      changed = true;
+    }
+    return changed;
+  }
+
+  /** Parses a value, falling back to zeros (with a one-time warning) when it can't be read. */
+  private parse(text: string, binding: SourceBinding): number[] {
+    const trimmed = text.trim();
+    const value = trimmed ? parseSourceValue(trimmed) : null;
+    if (value) return value.slice(0, binding.size);
+
+    if (trimmed && !this.warned.has(binding.source)) {
+      this.warned.add(binding.source);
+      console.warn(`[ShaderUp] Cannot read "${trimmed}" from '${binding.source}' as a number, vector or color.`);
+    }
+    return new Array(binding.size).fill(0);
+  }
+
+  private markStale(el: HTMLElement): void {
+    if (!this.trackedSet.has(el)) return;
+    this.stale.add(el);
+    this.onChange();
+  }
+
+  private handleMutations = (records: MutationRecord[]): void => {
+    let changed = false;
+    for (const record of records) {
+      const target = record.target as HTMLElement;
+      if (this.trackedSet.has(target)) {
+        this.stale.add(target);
+        changed = true;
+      }
+
+      // Class and style changes on an ancestor, e.g. a theme switch on <html>, can change inherited custom properties
+      if (!this.hasCssBinding || record.attributeName?.startsWith('data-')) continue;
+      for (const el of this.tracked) {
+        if (el === target || !target.contains(el)) continue;
+        this.stale.add(el);
+        changed = true;
+      }
+    }
+    if (changed) this.onChange();
+  };
+
+  private handleStyleEvent = (e: Event): void => {
+    this.markStale(e.currentTarget as HTMLElement);
+  };
+
+  private handleAnimationStart = (e: Event): void => {
+    const el = e.currentTarget as HTMLElement;
+    this.animating.set(el, (this.animating.get(el) ?? 0) + 1);
+    this.onChange();
+  };
+
+  private handleAnimationEnd = (e: Event): void => {
+    const el = e.currentTarget as HTMLElement;
+    const count = (this.animating.get(el) ?? 0) - 1;
+    if (count > 0) {
+      this.animating.set(el, count);
+    } else {
+      this.animating.delete(el);
+    }
+    // Read the final value
+    this.markStale(el);
+  };
+}
+
+function parseSource(source: ElementSource): ParsedSource {
+  if (source.startsWith('css:--')) return { kind: 'css', key: source.slice(4) };
+  if (source.startsWith('data:')) return { kind: 'data', key: `data-${source.slice(5)}` };
+  throw new Error(`[ShaderUp] Unknown attribute source '${source}'. Use 'css:--name' or 'data:name'.`);
+}
+
+const NUMBER_PATTERN = /^[-+]?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?(%|[a-z]+)?$/i;
+
+/**
+ * Parses a number ('0.5', '12px', '50%'), a vector ('1 0.5 0', '1, 0.5, 0') or a CSS color.
+ * Percentages become fractions; other units are dropped.
+ */
+function parseSourceValue(text: string): number[] | null {
+  const parts = text.split(/[\s,]+/);
+  if (parts.every(part => NUMBER_PATTERN.test(part))) {
+    return parts.map(part => part.endsWith('%') ? parseFloat(part) / 100 : parseFloat(part));
+  }
+  return parseColor(text);
+}
+
+let colorContext: CanvasRenderingContext2D | null = null;
+
+/** Parses any CSS color into RGBA in [0, 1], using the canvas 2D context to normalize it. */
+function parseColor(text: string): number[] | null {
+  const fast = parseNormalizedColor(text);
+  if (fast) return fast;
+
+  colorContext ??= document.createElement('canvas').getContext('2d');
+  if (!colorContext) return null;
+
+  // Invalid colors leave fillStyle unchanged, so try from two different starting colors
+  colorContext.fillStyle = '#000000';
+  colorContext.fillStyle = text;
+  const normalized = colorContext.fillStyle;
+  colorContext.fillStyle = '#ffffff';
+  colorContext.fillStyle = text;
+  if (colorContext.fillStyle !== normalized || typeof normalized !== 'string') return null;
+
+  return parseNormalizedColor(normalized);
+}
+
+/** Parses hex and rgb()/rgba() colors, the formats the canvas normalizes to. */
+function parseNormalizedColor(text: string): number[] | null {
+  const hex = /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i.exec(text);
+  if (hex) {
+    let digits = hex[1];
+    if (digits.length <= 4) digits = digits.split('').map(d => d + d).join('');
+    const values = digits.match(/../g)!.map(pair => parseInt(pair, 16) / 255);
+    if (values.length === 3) values.push(1);
+    return values;
+  }
+
+  const rgb = /^rgba?\(\s*([^)]*)\)$/i.exec(text);
+  if (rgb) {
+    const parts = rgb[1].split(/[\s,/]+/).filter(Boolean);
+    if (parts.length < 3 || parts.length > 4) return null;
+    const values = parts.map((part, i) => {
+      const number = parseFloat(part);
+      if (part.endsWith('%')) return number / 100;
+      return i < 3 ? number / 255 : number;
+    });
+    if (values.some(Number.isNaN)) return null;
+    if (values.length === 3) values.push(1);
+    return values;
+  }
+
+  return null;
+}
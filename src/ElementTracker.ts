@@ -0,0 +1,173 @@
+export interface ElementTrackerOptions {
+  /** A fixed list of elements. */
+  elements?: HTMLElement[] | NodeListOf<HTMLElement>;
+  /** Tracks the elements inside a container instead, following additions and removals. */
+  container?: HTMLElement;
+  /** With `container`, which descendants to track. Defaults to its direct children. */
+  selector?: string;
+  /** Leaves out elements outside the viewport. */
+  cull: boolean;
+  /** When to read element rects: only after scroll/resize/layout events, or on every frame. */
+  measure: 'onChange' | 'everyFrame';
+}
+
+// Elements slightly outside the viewport count as visible, so fast scrolling doesn't show gaps
+const CULL_MARGIN = '20%';
+
+/**
+ * Follows a set of elements for `fromElements`: which ones exist, which are in view,
+ * and where they are relative to the canvas. Layout is read in one batch, and only
+ * after something that can move elements happened.
+ */
+export class ElementTracker {
+  /** The elements to draw, in order. Instance `i` belongs to `elements[i]`. */
+  public elements: HTMLElement[] = [];
+
+  private readonly canvas: HTMLCanvasElement;
+  private readonly options: ElementTrackerOptions;
+  private readonly onChange: () => void;
+  private all: HTMLElement[] = [];
+  // Missing entries have not been reported yet and count as visible
+  private visibility: Map<HTMLElement, boolean> = new Map();
+  private rects: Map<HTMLElement, DOMRect> = new Map();
+  private canvasRect: DOMRect | null = null;
+  // The drawing buffer size the rects were last measured for
+  private bufferSize: [number, number] = [0, 0];
+  private isLayoutDirty = true;
+
+  private readonly resizeObserver: ResizeObserver;
+  private readonly intersectionObserver: IntersectionObserver | null = null;
+  private readonly mutationObserver: MutationObserver | null = null;
+
+  /**
+   * @param onChange Called when the elements, their visibility or their layout may have changed.
+   */
+  constructor(canvas: HTMLCanvasElement, options: ElementTrackerOptions, onChange: () => void) {
+    if (!options.elements && !options.container) {
+      throw new Error("[ShaderUp] 'elements' or 'container' is required for fromElements().");
+    }
+
+    this.canvas = canvas;
+    this.options = options;
+    this.onChange = onChange;
+
+    this.resizeObserver = new ResizeObserver(this.markLayoutDirty);
+    this.resizeObserver.observe(canvas);
+    if (options.cull && typeof IntersectionObserver !== 'undefined') {
+      this.intersectionObserver = new IntersectionObserver(this.handleIntersection, { rootMargin: CULL_MARGIN });
+    }
+    if (options.container) {
+      this.resizeObserver.observe(options.container);
+      this.mutationObserver = new MutationObserver(this.handleMutation);
+      this.mutationObserver.observe(options.container, { childList: true, subtree: !!options.selector });
+    }
+
+    // Capture scrolls of any scrollable ancestor, not just the window
+    window.addEventListener('scroll', this.markLayoutDirty, { capture: true, passive: true });
+    window.addEventListener('resize', this.markLayoutDirty);
+
+    this.setElements(this.queryElements());
+  }
+
+  /**
+   * Refreshes `elements` and their rects if anything changed since the last call.
+   * @returns Whether the elements or their rects changed.
+   */
+  public update(): boolean {
+    // `renderScale`, pixel ratio changes and exports resize the drawing buffer without moving anything on the page
+    const isBufferResized = this.canvas.width !== this.bufferSize[0] || this.canvas.height !== this.bufferSize[1];
+    if (!this.isLayoutDirty && !isBufferResized && this.options.measure !== 'everyFrame') return false;
+    this.isLayoutDirty = false;
+    this.bufferSize = [this.canvas.width, this.canvas.height];
+
+    this.elements = this.options.cull ? this.all.filter(el => this.visibility.get(el) !== false) : this.all.slice();
+
+    // All reads in one go, so layout is computed at most once
+    this.canvasRect = this.canvas.getBoundingClientRect();
+    this.rects.clear();
+    for (const el of this.elements) {
+      this.rects.set(el, el.getBoundingClientRect());
+    }
+    return true;
+  }
+
+  /**
+   * Writes an element's rect as x, y, width, height in canvas drawing buffer pixels (top-left origin).
+   */
+  public writeRect(el: HTMLElement, target: Float32Array, offset: number): void {
+    const rect = this.rects.get(el);
+    const canvasRect = this.canvasRect;
+    if (!rect || !canvasRect) return;
+
+    // Accounts for the pixel ratio and any CSS scaling of the canvas
+    const scaleX = canvasRect.width > 0 ? this.canvas.width / canvasRect.width : 1;
+    const scaleY = canvasRect.height > 0 ? this.canvas.height / canvasRect.height : 1;
+
+    target[offset] = (rect.left - canvasRect.left) * scaleX;
+    target[offset + 1] = (rect.top - canvasRect.top) * scaleY;
+    target[offset + 2] = rect.width * scaleX;
+    target[offset + 3] = rect.height * scaleY;
+  }
+
+  /** The element's client rect from the last measurement. */
+  public getClientRect(el: HTMLElement): DOMRect | undefined {
+    return this.rects.get(el);
+  }
+
+  public dispose(): void {
+    this.resizeObserver.disconnect();
+    this.intersectionObserver?.disconnect();
+    this.mutationObserver?.disconnect();
+    window.removeEventListener('scroll', this.markLayoutDirty, { capture: true });
+    window.removeEventListener('resize', this.markLayoutDirty);
+    this.all = [];
+    this.elements = [];
+    this.rects.clear();
+    this.visibility.clear();
+  }
+
+  private queryElements(): HTMLElement[] {
+    const { container, selector } = this.options;
+    if (!container) return Array.from(this.options.elements!);
+    return Array.from(selector ? container.querySelectorAll(selector) : container.children)
+      .filter((el): el is HTMLElement => el instanceof HTMLElement);
+  }
+
+  private setElements(next: HTMLElement[]): void {
+    const nextSet = new Set(next);
+    for (const el of this.all) {
+      if (nextSet.has(el)) continue;
+      this.resizeObserver.unobserve(el);
+      this.intersectionObserver?.unobserve(el);
+      this.visibility.delete(el);
+    }
+
+    const previous = new Set(this.all);
+    for (const el of next) {
+      if (previous.has(el)) continue;
+      this.resizeObserver.observe(el);
+      this.intersectionObserver?.observe(el);
+    }
+
+    this.all = next;
+    this.markLayoutDirty();
+  }
+
+  private markLayoutDirty = (): void => {
+    this.isLayoutDirty = true;
+    this.onChange();
+  };
+
+  private handleIntersection = (entries: IntersectionObserverEntry[]): void => {
+    for (const entry of entries) {
+      this.visibility.set(entry.target as HTMLElement, entry.isIntersecting);
+    }
+    this.markLayoutDirty();
+  };
+
+  private handleMutation = (): void => {
+    const next = this.queryElements();
+    if (next.length === this.all.length && next.every((el, i) => el === this.all[i])) return;
+    this.setElements(next);
+  };
+}
@@ -0,0 +1,262 @@
+import { getComponentBytes, type AttributeLayout, type AttributeType, type InstanceLayout } from './attributes';
+
+/** A value for one attribute: a number for scalars (or to fill every component), components otherwise. */
+export type AttributeValue = number | ArrayLike<number>;
+
+/**
+ * One instance's attributes as properties. Scalars read as numbers, vectors as arrays.
+ * Vectors are copies, so assign the whole vector to change it.
+ */
+export type InstanceRecord<Name extends string = string> = { [name in Name]: number | number[] };
+
+/** Largest value of each integer type, which normalized attributes map to 1. */
+const NORMALIZED_MAX: { [type in AttributeType]?: number } = {
+  BYTE: 0x7F, UNSIGNED_BYTE: 0xFF,
+  SHORT: 0x7FFF, UNSIGNED_SHORT: 0xFFFF,
+  INT: 0x7FFFFFFF, UNSIGNED_INT: 0xFFFFFFFF,
+};
+
+// Buffer data is little-endian on every platform WebGL runs on
+const LITTLE_ENDIAN = true;
+
+/**
+ * Reads and writes interleaved instance data by attribute name, using the same
+ * layout as the GPU buffer. Values are given as the shader sees them: normalized
+ * attributes take floats in [0, 1] (or [-1, 1] for signed types).
+ * @example
+ * shader.instances.set(0, 'a_instanceColor', [1, 0.5, 0]);
+ * shader.instances.get(0).a_instanceHover = 0.5;
+ */
+export class InstanceView<Name extends string = string> {
+  public readonly layout: InstanceLayout;
+
+  private data: ArrayBuffer;
+  private view: DataView;
+  private count: number;
+  private readonly attributes: Map<string, AttributeLayout>;
+  private records: InstanceRecord<Name>[] = [];
+  // Instances written since the last upload, as [dirtyStart, dirtyEnd)
+  private dirtyStart = Infinity;
+  private dirtyEnd = 0;
+  private readonly onChange?: () => void;
+
+  /**
+   * @param onChange Called whenever data is written.
+   */
+  constructor(layout: InstanceLayout, count: number, onChange?: () => void) {
+    this.layout = layout;
+    this.count = count;
+    this.data = new ArrayBuffer(count * layout.stride);
+    this.view = new DataView(this.data);
+    this.attributes = new Map(layout.attributes.map(attribute => [attribute.name, attribute]));
+    this.onChange = onChange;
+  }
+
+  /** The packed data, ready for `setData()`. */
+  public get buffer(): ArrayBuffer {
+    return this.data;
+  }
+
+  /** Number of instances. */
+  public get length(): number {
+    return this.count;
+  }
+
+  /** Whether data was written since the last upload. */
+  public get isDirty(): boolean {
+    return this.dirtyEnd > this.dirtyStart;
+  }
+
+  /** The instances written since the last upload, as [first, end), or null. */
+  public get dirtyRange(): [number, number] | null {
+    return this.isDirty ? [this.dirtyStart, this.dirtyEnd] : null;
+  }
+
+  /**
+   * Writes one attribute of one instance.
+   * A number fills every component; an array writes its components in order.
+   */
+  public set(index: number, name: Name, value: AttributeValue): void {
+    const attribute = this.getAttribute(index, name);
+    const base = index * this.layout.stride + attribute.offset;
+    const bytes = getComponentBytes(attribute.type);
+
+    for (let i = 0; i < attribute.size; i++) {
+      const component = typeof value === 'number' ? value : value[i];
+      if (component === undefined) break;
+      this.writeComponent(base + i * bytes, attribute, component);
+    }
+    this.markDirty(index, index + 1);
+  }
+
+  /**
+   * Reads one attribute of one instance: a number for scalars, an array for vectors.
+   */
+  public read(index: number, name: Name): number | number[] {
+    const attribute = this.getAttribute(index, name);
+    const base = index * this.layout.stride + attribute.offset;
+    const bytes = getComponentBytes(attribute.type);
+
+    if (attribute.size === 1) return this.readComponent(base, attribute);
+    return Array.from({ length: attribute.size }, (_, i) => this.readComponent(base + i * bytes, attribute));
+  }
+
+  /**
+   * Returns an object whose properties read and write the attributes of one instance.
+   */
+  public get(index: number): InstanceRecord<Name> {
+    this.checkIndex(index);
+    let record = this.records[index];
+    if (record) return record;
+
+    record = {} as InstanceRecord<Name>;
+    for (const attribute of this.layout.attributes) {
+      const name = attribute.name as Name;
+      Object.defineProperty(record, name, {
+        enumerable: true,
+        get: () => this.read(index, name),
+        set: (value: AttributeValue) => this.set(index, name, value),
+      });
+    }
+    this.records[index] = record;
+    return record;
+  }
+
+  /**
+   * Flags instances for upload after writing to `buffer` directly.
+   * @param start First instance written. Defaults to 0.
+   * @param end One past the last instance written. Defaults to all instances.
+   */
+  public markDirty(start = 0, end = this.count): void {
+    this.dirtyStart = Math.min(this.dirtyStart, Math.max(0, start));
+    this.dirtyEnd = Math.max(this.dirtyEnd, Math.min(this.count, end));
+    this.onChange?.();
+  }
+
+  /**
+   * Called once data has been uploaded.
+   * @param start First instance uploaded. Defaults to 0.
+   * @param end One past the last instance uploaded. Defaults to all instances.
+   */
+  public clearDirty(start = 0, end = this.count): void {
+    // A single range is tracked, so only uploads that cover its start or its end narrow it
+    if (start <= this.dirtyStart) {
+      this.dirtyStart = Math.max(this.dirtyStart, end);
+    } else if (end >= this.dirtyEnd) {
+      this.dirtyEnd = Math.min(this.dirtyEnd, start);
+    }
+    if (this.dirtyEnd <= this.dirtyStart) {
+      this.dirtyStart = Infinity;
+      this.dirtyEnd = 0;
+    }
+  }
+
+  /**
+   * Changes the number of instances. Existing data is kept; added instances are zeroed.
+   */
+  public resize(count: number): void {
+    if (count === this.count) return;
+
+    const data = new ArrayBuffer(count * this.layout.stride);
+    const kept = Math.min(data.byteLength, this.data.byteLength);
+    new Uint8Array(data).set(new Uint8Array(this.data, 0, kept));
+
+    const previous = this.count;
+    this.data = data;
+    this.view = new DataView(data);
+    this.count = count;
+    this.records.length = Math.min(this.records.length, count);
+    this.dirtyEnd = Math.min(this.dirtyEnd, count);
+
+    // The GPU may still hold stale data where the added instances go
+    if (count > previous) this.markDirty(previous, count);
+  }
+
+  private getAttribute(index: number, name: string): AttributeLayout {
+    this.checkIndex(index);
+    const attribute = this.attributes.get(name);
+    if (!attribute) throw new Error(`[ShaderUp] Unknown instance attribute "${name}".`);
+    return attribute;
+  }
+
+  private checkIndex(index: number): void {
+    if (!Number.isInteger(index) || index < 0 || index >= this.count) {
+      throw new RangeError(`[ShaderUp] Instance index ${index} is out of range (${this.count} instances).`);
+    }
+  }
+
+  private writeComponent(offset: number, attribute: AttributeLayout, value: number): void {
+    const { view } = this;
+    const max = NORMALIZED_MAX[attribute.type];
+    if (attribute.normalized && max !== undefined) {
+      const min = attribute.type.startsWith('UNSIGNED') ? 0 : -1;
+      value = Math.round(Math.min(1, Math.max(min, value)) * max);
+    }
+
+    switch (attribute.type) {
+      case 'FLOAT': view.setFloat32(offset, value, LITTLE_ENDIAN); break;
+      case 'HALF_FLOAT': view.setUint16(offset, toHalfFloat(value), LITTLE_ENDIAN); break;
+      case 'BYTE': view.setInt8(offset, value); break;
+      case 'UNSIGNED_BYTE': view.setUint8(offset, value); break;
+      case 'SHORT': view.setInt16(offset, value, LITTLE_ENDIAN); break;
+      case 'UNSIGNED_SHORT': view.setUint16(offset, value, LITTLE_ENDIAN); break;
+      case 'INT': view.setInt32(offset, value, LITTLE_ENDIAN); break;
+      case 'UNSIGNED_INT': view.setUint32(offset, value, LITTLE_ENDIAN); break;
+    }
+  }
+
+  private readComponent(offset: number, attribute: AttributeLayout): number {
+    const { view } = this;
+    let value: number;
+    switch (attribute.type) {
+      case 'FLOAT': return view.getFloat32(offset, LITTLE_ENDIAN);
+      case 'HALF_FLOAT': return fromHalfFloat(view.getUint16(offset, LITTLE_ENDIAN));
+      case 'BYTE': value = view.getInt8(offset); break;
+      case 'UNSIGNED_BYTE': value = view.getUint8(offset); break;
+      case 'SHORT': value = view.getInt16(offset, LITTLE_ENDIAN); break;
+      case 'UNSIGNED_SHORT': value = view.getUint16(offset, LITTLE_ENDIAN); break;
+      case 'INT': value = view.getInt32(offset, LITTLE_ENDIAN); break;
+      case 'UNSIGNED_INT': value = view.getUint32(offset, LITTLE_ENDIAN); break;
+    }
+
+    const max = NORMALIZED_MAX[attribute.type];
+    // Like the GPU, the most negative signed value maps to -1 as well
+    return attribute.normalized && max !== undefined ? Math.max(-1, value / max) : value;
+  }
+}
+
+const floatScratch = new Float32Array(1);
+const bitsScratch = new Uint32Array(floatScratch.buffer);
+
+/** Converts a number to IEEE 754 half precision bits, rounding to nearest. */
+function toHalfFloat(value: number): number {
+  floatScratch[0] = value;
+  const bits = bitsScratch[0];
+  const sign = (bits >>> 16) & 0x8000;
+  const exponent = ((bits >>> 23) & 0xFF) - 127 + 15;
+  const mantissa = bits & 0x7FFFFF;
+
+  // NaN and Infinity
+  if (exponent === 0xFF - 127 + 15) return sign | 0x7C00 | (mantissa ? 0x200 : 0);
+  // Too large: Infinity
+  if (exponent >= 0x1F) return sign | 0x7C00;
+  // Too small for a subnormal: zero
+  if (exponent < -10) return sign;
+  // Subnormal
+  if (exponent <= 0) {
+    const shifted = (mantissa | 0x800000) >> (1 - exponent);
+    return sign | ((shifted >> 13) + ((shifted >> 12) & 1));
+  }
+  // A rounding carry correctly overflows into the exponent
+  return (sign | (exponent << 10) | (mantissa >> 13)) + ((mantissa >> 12) & 1);
+}
+
+function fromHalfFloat(bits: number): number {
+  const sign = bits & 0x8000 ? -1 : 1;
+  const exponent = (bits >> 10) & 0x1F;
+  const mantissa = bits & 0x3FF;
+
+  if (exponent === 0) return sign * 2 ** -14 * (mantissa / 1024);
+  if (exponent === 0x1F) return mantissa ? NaN : sign * Infinity;
+  return sign * 2 ** (exponent - 15) * (1 + mantissa / 1024);
+}
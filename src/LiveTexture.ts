@@ -0,0 +1,83 @@
+import type { TextureOptions } from './textures';
+
+export type LiveTextureSource = HTMLVideoElement | HTMLCanvasElement | OffscreenCanvas;
+
+// HTMLMediaElement.HAVE_CURRENT_DATA
+const HAVE_CURRENT_DATA = 2;
+
+/**
+ * Decides when a source bound with `bindLiveTexture` has a new frame to upload:
+ * - videos: once per decoded frame, via `requestVideoFrameCallback` where available and by
+ *   watching `currentTime` otherwise. Paused videos upload nothing until they play or seek.
+ * - canvases: on every frame drawn, since their changes can't be observed
+ */
+export class LiveTexture {
+  public readonly source: LiveTextureSource;
+  public readonly options: TextureOptions;
+
+  private readonly onFrame: () => void;
+  private readonly onDispose: (() => void) | undefined;
+  private readonly hasFrameCallback: boolean;
+  private frameCallbackId: number | null = null;
+  private hasNewFrame = true;
+  private lastVideoTime = -1;
+
+  /**
+   * @param onFrame Called when a new frame is available and should be drawn.
+   * @param onDispose Extra teardown, e.g. stopping a camera stream.
+   */
+  constructor(source: LiveTextureSource, options: TextureOptions, onFrame: () => void, onDispose?: () => void) {
+    this.source = source;
+    this.options = options;
+    this.onFrame = onFrame;
+    this.onDispose = onDispose;
+
+    const isVideo = typeof HTMLVideoElement !== 'undefined' && source instanceof HTMLVideoElement;
+    this.hasFrameCallback = isVideo && 'requestVideoFrameCallback' in source;
+    if (isVideo) {
+      if (this.hasFrameCallback) this.requestVideoFrame();
+      for (const type of ['play', 'seeked', 'loadeddata']) source.addEventListener(type, this.onFrame);
+    }
+  }
+
+  /**
+   * Whether the source changed since the last upload. Clears the flag.
+   */
+  public shouldUpload(): boolean {
+    const { source } = this;
+    if (!(typeof HTMLVideoElement !== 'undefined' && source instanceof HTMLVideoElement)) return true;
+    if (source.readyState < HAVE_CURRENT_DATA || source.videoWidth === 0) return false;
+
+    if (this.hasFrameCallback) {
+      const hasNewFrame = this.hasNewFrame;
+      this.hasNewFrame = false;
+      return hasNewFrame;
+    }
+
+    // Without frame callbacks, keep frames coming while the video plays and upload when its time moves
+    if (!source.paused && !source.ended) queueMicrotask(this.onFrame);
+    if (source.currentTime === this.lastVideoTime) return false;
+    this.lastVideoTime = source.currentTime;
+    return true;
+  }
+
+  public dispose(): void {
+    const { source } = this;
+    if (typeof HTMLVideoElement !== 'undefined' && source instanceof HTMLVideoElement) {
+      if (this.frameCallbackId !== null) source.cancelVideoFrameCallback(this.frameCallbackId);
+      this.frameCallbackId = null;
+      for (const type of ['play', 'seeked', 'loadeddata']) source.removeEventListener(type, this.onFrame);
+    }
+    this.onDispose?.();
+  }
+
+  private requestVideoFrame(): void {
+    this.frameCallbackId = (this.source as HTMLVideoElement).requestVideoFrameCallback(this.handleVideoFrame);
+  }
+
+  private handleVideoFrame = (): void => {
+    this.hasNewFrame = true;
+    this.requestVideoFrame();
+    this.onFrame();
+  };
+}
@@ -0,0 +1,109 @@
+import { isWebGL2Context } from './context';
+
+/**
+ * A double-buffered framebuffer used by multipass rendering.
+ * One texture is written to while the other holds the last completed result,
+ * which lets a pass sample its own previous frame (feedback loops).
+ */
+export class PingPongTarget {
+  public width = 0;
+  public height = 0;
+
+  private readonly gl: WebGLRenderingContext | WebGL2RenderingContext;
+  private readonly float: boolean;
+  private readonly filter: number;
+  private textures: [WebGLTexture, WebGLTexture];
+  private framebuffers: [WebGLFramebuffer, WebGLFramebuffer];
+  private readIndex = 0;
+
+  constructor(
+    gl: WebGLRenderingContext | WebGL2RenderingContext,
+    width: number,
+    height: number,
+    options: { float?: boolean; filter?: 'linear' | 'nearest' } = {}
+  ) {
+    this.gl = gl;
+    this.float = !!options.float && this.enableFloatRendering();
+    this.filter = options.filter === 'nearest' ? gl.NEAREST : gl.LINEAR;
+
+    this.textures = [this.createTexture(), this.createTexture()];
+    this.framebuffers = [this.createFramebuffer(this.textures[0]), this.createFramebuffer(this.textures[1])];
+    this.resize(width, height);
+  }
+
+  /** The texture holding the most recently completed frame. */
+  public get readTexture(): WebGLTexture {
+    return this.textures[this.readIndex];
+  }
+
+  /** The framebuffer that the next draw should render into. */
+  public get writeFramebuffer(): WebGLFramebuffer {
+    return this.framebuffers[1 - this.readIndex];
+  }
+
+  /** Makes the texture that was just written the new read texture. */
+  public swap(): void {
+    this.readIndex = 1 - this.readIndex;
+  }
+
+  /**
+   * Reallocates both textures. Contents are cleared to transparent black.
+   * Does nothing if the size is unchanged.
+   */
+  public resize(width: number, height: number): void {
+    if (width === this.width && height === this.height) return;
+    this.width = width;
+    this.height = height;
+
+    const { gl } = this;
+    for (const texture of this.textures) {
+      gl.bindTexture(gl.TEXTURE_2D, texture);
+      if (this.float) {
+        const gl2 = gl as WebGL2RenderingContext;
+        gl2.texImage2D(gl.TEXTURE_2D, 0, gl2.RGBA16F, width, height, 0, gl.RGBA, gl2.HALF_FLOAT, null);
+      } else {
+        gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, width, height, 0, gl.RGBA, gl.UNSIGNED_BYTE, null);
+      }
+    }
+    gl.bindTexture(gl.TEXTURE_2D, null);
+  }
+
+  public dispose(): void {
+    const { gl } = this;
+    this.framebuffers.forEach(fb => gl.deleteFramebuffer(fb));
+    this.textures.forEach(tex => gl.deleteTexture(tex));
+  }
+
+  private createTexture(): WebGLTexture {
+    const { gl } = this;
+    const texture = gl.createTexture();
+    if (!texture) throw new Error("[ShaderUp] Unable to create pass texture.");
+
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, this.filter);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, this.filter);
+    return texture;
+  }
+
+  private createFramebuffer(texture: WebGLTexture): WebGLFramebuffer {
+    const { gl } = this;
+    const framebuffer = gl.createFramebuffer();
+    if (!framebuffer) throw new Error("[ShaderUp] Unable to create pass framebuffer.");
+
+    gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+    gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, texture, 0);
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+    return framebuffer;
+  }
+
+  /** Float targets need WebGL2 and a renderable float format. */
+  private enableFloatRendering(): boolean {
+    const isWebGL2 = isWebGL2Context(this.gl);
+    if (isWebGL2 && this.gl.getExtension('EXT_color_buffer_float')) return true;
+
+    console.warn("[ShaderUp] Float pass targets are not supported on this device. Falling back to RGBA8.");
+    return false;
+  }
+}
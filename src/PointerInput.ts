@@ -0,0 +1,140 @@
+export interface InputOptions {
+  /** Length of the `u_touches` array. Defaults to 4. */
+  maxTouches?: number;
+  /**
+   * Default smoothing time, in seconds, for `input:*` attribute sources in `fromElements`.
+   * Defaults to 0 (no smoothing).
+   */
+  smoothing?: number;
+}
+
+// Seconds over which the velocity follows the pointer
+const VELOCITY_SMOOTHING = 0.05;
+// Pixels per second below which the pointer counts as still
+const VELOCITY_EPSILON = 1;
+
+/**
+ * Tracks the pointer for the input uniforms, in drawing buffer pixels with a bottom-left origin
+ * (like `gl_FragCoord`):
+ * - `u_mouse` (vec2): pointer position
+ * - `u_mouseDown` (float): 1 while a press that started on the canvas is held
+ * - `u_mouseClick` (vec2): where the last press started
+ * - `u_mouseVelocity` (vec2): pixels per second
+ * - `u_touches` (vec2[maxTouches]) and `u_touchCount` (int): active touch points
+ *
+ * Events are read from the window, so overlay canvases with `pointer-events: none` work too.
+ */
+export class PointerInput {
+  private readonly canvas: HTMLCanvasElement;
+  private readonly maxTouches: number;
+  private readonly onChange: () => void;
+
+  // Client (CSS pixel) coordinates; converted once per frame
+  private client: [number, number] | null = null;
+  private clickClient: [number, number] | null = null;
+  private isDown = false;
+  private touches: Map<number, [number, number]> = new Map();
+
+  private position: [number, number] = [0, 0];
+  private velocity: [number, number] = [0, 0];
+  private lastUpdate: number | null = null;
+
+  /**
+   * @param onChange Called when the pointer state changes and a frame should be drawn.
+   */
+  constructor(canvas: HTMLCanvasElement, options: InputOptions, onChange: () => void) {
+    this.canvas = canvas;
+    this.maxTouches = options.maxTouches ?? 4;
+    this.onChange = onChange;
+
+    window.addEventListener('pointermove', this.handlePointerMove, { passive: true });
+    window.addEventListener('pointerdown', this.handlePointerDown, { passive: true });
+    window.addEventListener('pointerup', this.handlePointerUp, { passive: true });
+    window.addEventListener('pointercancel', this.handlePointerUp, { passive: true });
+  }
+
+  /**
+   * Converts the latest pointer state and writes the input uniforms.
+   * @param now Timestamp in milliseconds, used for the velocity.
+   */
+  public update(uniforms: { [name: string]: any }, now: number): void {
+    const rect = this.canvas.getBoundingClientRect();
+    const toCanvas = ([x, y]: [number, number]): [number, number] => {
+      const scaleX = rect.width > 0 ? this.canvas.width / rect.width : 1;
+      const scaleY = rect.height > 0 ? this.canvas.height / rect.height : 1;
+      return [(x - rect.left) * scaleX, this.canvas.height - (y - rect.top) * scaleY];
+    };
+
+    const previous = this.position;
+    this.position = this.client ? toCanvas(this.client) : previous;
+
+    const dt = this.lastUpdate === null ? 0 : (now - this.lastUpdate) / 1000;
+    this.lastUpdate = now;
+    if (dt > 0) {
+      // Pointer events and frames don't line up, so the raw per-frame velocity is smoothed
+      const blend = 1 - Math.exp(-dt / VELOCITY_SMOOTHING);
+      for (const axis of [0, 1]) {
+        const raw = (this.position[axis] - previous[axis]) / dt;
+        const value = this.velocity[axis] + (raw - this.velocity[axis]) * blend;
+        this.velocity[axis] = Math.abs(value) < VELOCITY_EPSILON ? 0 : value;
+      }
+    }
+
+    const touches = new Array(this.maxTouches * 2).fill(0);
+    let touchCount = 0;
+    for (const touch of this.touches.values()) {
+      if (touchCount >= this.maxTouches) break;
+      const [x, y] = toCanvas(touch);
+      touches[touchCount * 2] = x;
+      touches[touchCount * 2 + 1] = y;
+      touchCount++;
+    }
+
+    uniforms.u_mouse = this.position;
+    uniforms.u_mouseDown = this.isDown ? 1 : 0;
+    uniforms.u_mouseClick = this.clickClient ? toCanvas(this.clickClient) : [0, 0];
+    uniforms.u_mouseVelocity = [...this.velocity];
+    uniforms.u_touches = touches;
+    uniforms.u_touchCount = touchCount;
+
+    // Keep drawing until the velocity has settled back to zero
+    if (this.velocity[0] !== 0 || this.velocity[1] !== 0) queueMicrotask(this.onChange);
+  }
+
+  public dispose(): void {
+    window.removeEventListener('pointermove', this.handlePointerMove);
+    window.removeEventListener('pointerdown', this.handlePointerDown);
+    window.removeEventListener('pointerup', this.handlePointerUp);
+    window.removeEventListener('pointercancel', this.handlePointerUp);
+  }
+
+  private isOverCanvas(e: PointerEvent): boolean {
+    const rect = this.canvas.getBoundingClientRect();
+    return e.clientX >= rect.left && e.clientX < rect.right && e.clientY >= rect.top && e.clientY < rect.bottom;
+  }
+
+  private handlePointerMove = (e: PointerEvent): void => {
+    if (e.isPrimary) this.client = [e.clientX, e.clientY];
+    if (e.pointerType === 'touch' && this.touches.has(e.pointerId)) {
+      this.touches.set(e.pointerId, [e.clientX, e.clientY]);
+    }
+    this.onChange();
+  };
+
+  private handlePointerDown = (e: PointerEvent): void => {
+    if (!this.isOverCanvas(e)) return;
+    if (e.isPrimary) {
+      this.client = [e.clientX, e.clientY];
+      this.clickClient = [e.clientX, e.clientY];
+      this.isDown = true;
+    }
+    if (e.pointerType === 'touch') this.touches.set(e.pointerId, [e.clientX, e.clientY]);
+    this.onChange();
+  };
+
+  private handlePointerUp = (e: PointerEvent): void => {
+    if (e.isPrimary) this.isDown = false;
+    this.touches.delete(e.pointerId);
+    this.onChange();
+  };
+}
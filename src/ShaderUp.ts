@@ -1,113 +1,452 @@
-export type UniformType = 'float' | 'vec2' | 'vec3' | 'vec4' | 'int' | 'sampler2D';
-export type RenderMode = 'fullscreen' | 'instanced';
+import { AdaptiveResolution, type AdaptiveResolutionOptions } from './AdaptiveResolution';
+import {
+  Animator,
+  type AnimationHandle,
+  type AnimationValue,
+  type Keyframe,
+  type KeyframeOptions,
+  type SpringOptions,
+  type Transition,
+  type TweenOptions,
+} from './Animator';
+import {
+  createInstanceLayout,
+  isIntegerType,
+  reflectIntegerAttributes,
+  type AttributeOptions,
+  type InputSource,
+  type InstanceLayout,
+} from './attributes';
+import {
+  canvasToBlob,
+  readPixels,
+  recordCanvas,
+  type CaptureOptions,
+  type RecordOptions,
+  type Recording,
+  type SequenceOptions,
+} from './capture';
+import { Clock, type FrameTime } from './Clock';
+import { isWebGL2Context, type ContextFactory } from './context';
+import { ElementInput, type InputBinding } from './ElementInput';
+import { ElementSources, type ElementSource, type SourceBinding } from './ElementSources';
+import { ElementTracker } from './ElementTracker';
+import { parseShaderLog, ShaderCompileError, ShaderLinkError, type ShaderStage } from './errors';
+import { prepareGeometry, UNIT_QUAD, type Geometry, type PreparedGeometry } from './geometry';
+import { InstanceView } from './InstanceView';
+import { LiveTexture, type LiveTextureSource } from './LiveTexture';
+import { PingPongTarget } from './PingPongTarget';
+import { PointerInput, type InputOptions } from './PointerInput';
+import { preprocess, ShaderIncludeError, type PreprocessedShader, type ShaderDefines } from './preprocessor';
+import {
+  applyRenderState,
+  resetRenderState,
+  type BlendMode,
+  type ClearPolicy,
+  type DepthOptions,
+  type RenderState,
+  type StencilOptions,
+} from './renderState';
+import { getShadertoyDate, getShadertoyWrapper, SHADERTOY_CHANNELS, ShadertoyMouse } from './shadertoy';
+import { ShaderUpProxy, type ShaderUpProxyOptions } from './ShaderUpProxy';
+import type { ShaderUpRenderer, ViewRegion } from './ShaderUpRenderer';
+import { isDataTexture, updateTexture, uploadTexture, type DataTexture, type TextureOptions } from './textures';
+import {
+  getDefaultUniformValue,
+  getSamplerTarget,
+  isSamplerType,
+  parseUniformPath,
+  reflectUniforms,
+  uploadUniform,
+  type UniformType,
+} from './uniforms';
+
+export type { AdaptiveResolutionOptions } from './AdaptiveResolution';
+export type { AttributeLayout, AttributeOptions, AttributeSource, AttributeType, InputSource, InstanceLayout } from './attributes';
+export type { ContextFactory } from './context';
+export type { LiveTextureSource } from './LiveTexture';
+export type { InputOptions } from './PointerInput';
+export type {
+  BlendEquation,
+  BlendFactor,
+  BlendMode,
+  ClearPolicy,
+  CompareFunc,
+  CustomBlend,
+  DepthOptions,
+  StencilOp,
+  StencilOptions,
+} from './renderState';
+export type { DataTexture, TextureFilter, TextureFormat, TextureOptions, TextureWrap } from './textures';
+export type { UniformType } from './uniforms';
 
 /**
- * Defines a single vertex attribute for a WebGL buffer.
+ * What the main shader draws:
+ * - 'fullscreen': one triangle covering the canvas
+ * - 'instanced': `numInstances` copies of a unit quad (or of `geometry`), with per-instance `attributes`
+ * - 'mesh': `geometry`, once
  */
-export interface AttributeOptions {
-  /** The size of the attribute (number of components, e.g., 3 for a vec3). */
-  size: 1 | 2 | 3 | 4;
-  /** The data type of the attribute. Defaults to 'FLOAT'. */
-  type?: 'FLOAT' | 'UNSIGNED_BYTE'; // Add more as needed
-  /** Whether this attribute is instanced (advances per instance, not per vertex). Defaults to false. */
-  instanced?: boolean;
+export type RenderMode = 'fullscreen' | 'instanced' | 'mesh';
+
+/**
+ * When the render loop draws:
+ * - 'always': every animation frame while running
+ * - 'demand': only after something changed (uniforms, textures, instance data, size) or `invalidate()`
+ * - 'never': only on explicit `renderFrame()` calls
+ */
+export type FrameLoop = 'always' | 'demand' | 'never';
+
+/**
+ * Defines an offscreen render pass (Shadertoy-style "Buffer A", "Buffer B", ...).
+ * Each pass draws a fullscreen fragment shader into its own double-buffered texture.
+ */
+export interface PassOptions {
+  /** Unique name of the pass, used to reference it from `inputs`. */
+  name: string;
+  /** The source code for the pass's fragment shader. */
+  fragmentShader: string;
+  /** Optional source code for the vertex shader. Defaults to the fullscreen vertex shader. */
+  vertexShader?: string;
+  /** Optional map of uniform names to their expected types. Values are read from the shared `uniforms` object. */
+  uniforms?: { [name: string]: UniformType };
+  /**
+   * Map of sampler2D uniform names to the pass they read from.
+   * Reading the pass itself, or a pass rendered later, yields its previous frame.
+   */
+  inputs?: { [uniform: string]: string };
+  /** Extra `#define`s for this pass, merged over the global `defines`. */
+  defines?: ShaderDefines;
+  /** Resolution of the pass relative to the canvas drawing buffer. Defaults to 1. */
+  scale?: number;
+  /** Stores the output as half floats (WebGL2 only), e.g. for simulations. Defaults to false. */
+  float?: boolean;
+  /** Filtering used when the pass output is sampled. Defaults to 'linear'. */
+  filter?: 'linear' | 'nearest';
 }
 
 /**
  * Configuration for the ShaderUp instance.
+ * @typeParam A Names of the instance attributes, inferred from `attributes`.
  */
-export interface ShaderUpOptions {
-  /** The rendering mode. 'fullscreen' for a simple fragment shader, 'instanced' for hardware instancing. */
+export interface ShaderUpOptions<A extends string = string> {
+  /** The rendering mode. Defaults to 'fullscreen'. */
   renderMode?: RenderMode;
   /** The ID of the canvas element in the DOM. */
   canvasId?: string;
-  /** Direct reference to a canvas element. Takes precedence over canvasId. */
-  canvas?: HTMLCanvasElement;
+  /**
+   * Direct reference to a canvas. Takes precedence over canvasId.
+   * An `OffscreenCanvas` (e.g. in a worker) has no layout, so its size is set with `setCanvasSize()`,
+   * and `input`, `autoPause` and `record()` are not available.
+   */
+  canvas?: HTMLCanvasElement | OffscreenCanvas;
+  /**
+   * The context to draw with instead of one from `canvas.getContext()`: an existing context
+   * (e.g. from headless-gl, or `createRecordingContext()` in tests) or a function that creates one.
+   * Without `canvas` or `canvasId`, the context's own canvas is used.
+   */
+  context?: WebGLRenderingContext | WebGL2RenderingContext | ContextFactory;
+  /**
+   * Draws with the renderer's shared context and frame loop instead of a context of its own.
+   * The canvas then receives the output as a 2D canvas ('blit' mode), or marks the region
+   * of the overlay to draw into ('overlay' mode).
+   */
+  renderer?: ShaderUpRenderer;
   /** The source code for the fragment shader. */
   fragmentShader: string;
   /** Optional source code for the vertex shader. Defaults to a shader appropriate for the renderMode. */
   vertexShader?: string;
-  /** Map of uniform names to their types. */
+  /**
+   * Accepts Shadertoy sources as-is: fragment shaders (main and passes) define
+   * `mainImage(out vec4, in vec2)` and use `iTime`, `iResolution`, `iMouse`, `iChannel0..3`, etc.
+   * Bind channels with `setTexture('iChannel0', image)` or `inputs: { iChannel0: 'bufferA' }`.
+   */
+  shadertoy?: boolean;
+  /** `#define`s injected into every shader (after `#version`). */
+  defines?: ShaderDefines;
+  /**
+   * Chunks available to `#include "name"`, in addition to the built-in library
+   * and those added with `registerChunk()`.
+   */
+  chunks?: { [name: string]: string };
+  /**
+   * Optional map of uniform names to their expected types.
+   * Uniforms are discovered from the shader automatically; declarations only validate them.
+   */
   uniforms?: { [name: string]: UniformType };
+  /**
+   * Offscreen passes rendered, in order, before the main shader.
+   * The main shader acts as the final "Image" pass and draws to the canvas.
+   */
+  passes?: PassOptions[];
+  /** Map of sampler2D uniform names in the main shader to the pass they read from. */
+  inputs?: { [uniform: string]: string };
   /**
    * For 'instanced' mode, defines the layout of the vertex buffer.
    * The order of attributes must match the interleaved buffer layout.
+   * Attributes of different types can be mixed; see `instanceLayout` for the resulting offsets.
    */
-  attributes?: { [name: string]: AttributeOptions };
+  attributes?: { [name in A]: AttributeOptions };
   /**
-   * For 'instanced' mode, the number of instances to draw.
+   * For 'instanced' mode, the number of instances to draw. Can be changed with `setInstanceCount()`.
    */
   numInstances?: number;
-  /** Optional callback triggered when the canvas is resized. */
+  /**
+   * The vertices drawn by 'mesh' mode (required) and by each instance in 'instanced' mode
+   * (instead of the unit quad). See `createPlane()`, `createCircle()` and friends.
+   * Can be replaced with `setGeometry()`.
+   */
+  geometry?: Geometry;
+  /**
+   * WebGL context attributes, over the defaults `{ alpha: true, antialias: false }`,
+   * e.g. `{ antialias: true, powerPreference: 'high-performance' }`. Views of a `renderer` use its context instead.
+   */
+  contextAttributes?: WebGLContextAttributes;
+  /** How the main shader's output combines with the canvas contents. Defaults to 'none'. */
+  blend?: BlendMode;
+  /** When the canvas is cleared before the main shader draws. Defaults to 'auto'. */
+  clear?: ClearPolicy;
+  /** RGBA color, 0-1, the canvas is cleared to. Defaults to transparent black. */
+  clearColor?: [number, number, number, number];
+  /** Enables the depth test for the main shader, e.g. for overlapping 3D geometry. Defaults to false. */
+  depth?: boolean | DepthOptions;
+  /** Enables the stencil test for the main shader. Asks for a stencil buffer unless `contextAttributes.stencil` is false. */
+  stencil?: StencilOptions;
+  /** Initial speed multiplier for `u_time`. Defaults to 1. */
+  playbackRate?: number;
+  /**
+   * Advances time by exactly this many seconds per frame instead of following the display,
+   * e.g. `1 / 60`. Makes animations reproducible for reviews and screenshots.
+   */
+  fixedTimestep?: number;
+  /** When the render loop draws. Defaults to 'always'. */
+  frameloop?: FrameLoop;
+  /** Caps the frame rate of the render loop, e.g. 30. Defaults to the display rate. */
+  fps?: number;
+  /**
+   * Suspends the render loop while the canvas is scrolled out of view or the tab is hidden.
+   * Time does not advance while suspended. Defaults to true.
+   */
+  autoPause?: boolean;
+  /**
+   * Drawing buffer pixels per CSS pixel. 'auto' follows `window.devicePixelRatio`,
+   * including when the window moves to another screen. Defaults to 'auto'.
+   */
+  pixelRatio?: 'auto' | number;
+  /** Upper bound for the pixel ratio, to limit the cost of very dense screens. */
+  maxPixelRatio?: number;
+  /** Multiplier on top of the pixel ratio, e.g. 0.5 renders at half resolution. Defaults to 1. */
+  renderScale?: number;
+  /**
+   * Adjusts `renderScale` while the loop runs: lowers it when frames take longer than
+   * the target frame rate allows and raises it again when there is headroom.
+   */
+  adaptiveResolution?: boolean | AdaptiveResolutionOptions;
+  /**
+   * Feeds the pointer into the shader, in drawing buffer pixels with a bottom-left origin like `gl_FragCoord`:
+   * `u_mouse`, `u_mouseDown`, `u_mouseClick`, `u_mouseVelocity` (pixels per second),
+   * `u_touches` (vec2 array) and `u_touchCount`. Defaults to false.
+   */
+  input?: boolean | InputOptions;
+  /** Optional callback triggered when the canvas is resized, with the drawing buffer size in pixels. */
   onResize?: (width: number, height: number) => void;
   /** An optional callback executed at the beginning of each render frame. */
   onBeforeRender?: () => void;
+  /** Optional callback triggered when the WebGL context is lost. Rendering pauses until it is restored. */
+  onContextLost?: () => void;
+  /** Optional callback triggered once all GPU resources have been rebuilt after a context restore. */
+  onContextRestored?: () => void;
+  /**
+   * Optional callback for shader errors raised by `setShaders()` and friends.
+   * The last working program keeps rendering. Defaults to logging the error.
+   */
+  onShaderError?: (error: Error) => void;
 }
 
 /**
  * Configuration for creating a ShaderUp instance linked to HTML elements.
  */
-export interface ShaderUpElementsOptions extends Omit<ShaderUpOptions, 'numInstances' | 'renderMode'> {
-  /** The HTML elements to use as the basis for instancing. */
-  elements: HTMLElement[] | NodeListOf<HTMLElement>;
+export interface ShaderUpElementsOptions<A extends string = string> extends Omit<ShaderUpOptions<A>, 'numInstances' | 'renderMode' | 'canvas'> {
+  /** Direct reference to a canvas element. Takes precedence over canvasId. */
+  canvas?: HTMLCanvasElement;
+  /** The HTML elements to use as the basis for instancing. Required unless `container` is set. */
+  elements?: HTMLElement[] | NodeListOf<HTMLElement>;
+  /**
+   * Tracks the elements inside a container instead of a fixed list. Elements added or removed
+   * later (e.g. by a virtualized list) are picked up automatically through a MutationObserver.
+   */
+  container?: HTMLElement;
+  /** With `container`, which descendants become instances. Defaults to its direct children. */
+  selector?: string;
+  /** Leaves elements outside the viewport out of the draw (via IntersectionObserver). Defaults to true. */
+  cull?: boolean;
+  /**
+   * When element rects are read. 'onChange' (the default) reads them only after scrolls, resizes
+   * and element size changes; use 'everyFrame' for elements moved by CSS animations or transforms.
+   */
+  measure?: 'onChange' | 'everyFrame';
   /**
    * A callback function executed on every frame to update custom per-instance data.
-   * The 'a_instanceRect' (vec4) data is handled automatically.
+   * The 'a_instanceRect' (vec4) data is handled automatically, in canvas drawing buffer pixels.
    * @param data - The Float32Array to populate with your custom attribute data.
-   * @param elements - The array of HTML elements.
+   * Non-float attributes are easier to write through a DataView over `data.buffer`, at the offsets in `instanceLayout`.
+   * @param elements - The elements being drawn; instance `i` belongs to `elements[i]`. Culled elements are left out.
    * @param stride - The stride (in floats) of the full interleaved data, including the automatic rect.
+   * @param instances - The same data, accessed by attribute name, e.g. `instances.set(i, 'a_hover', 1)`.
    */
-  onUpdate?: (data: Float32Array, elements: HTMLElement[], stride: number) => void;
+  onUpdate?: (
+    data: Float32Array,
+    elements: HTMLElement[],
+    stride: number,
+    instances: InstanceView<A | 'a_instanceRect'>
+  ) => void;
 }
 
-
-
 interface UniformInfo {
   location: WebGLUniformLocation;
   type: UniformType;
+  /** Array length, 1 for non-arrays. */
+  size: number;
+  /** Access path into the `uniforms` object, e.g. ['u_lights', 1, 'color']. */
+  path: (string | number)[];
+  /** First texture unit for samplers. Sampler arrays use consecutive units. */
   textureUnit?: number;
+  /** For samplers fed by a render pass, the name of that pass. */
+  pass?: string;
+}
+
+/** A linked program together with its cached uniform locations. */
+interface ProgramInfo {
+  program: WebGLProgram;
+  uniformInfo: Map<string, UniformInfo>;
+  timeLocation: WebGLUniformLocation | null;
+  deltaTimeLocation: WebGLUniformLocation | null;
+  /** `u_frame` may be declared as int or float, so its type is kept for the upload. */
+  frameUniform: { location: WebGLUniformLocation; type: UniformType } | null;
+  resolutionLocation: WebGLUniformLocation | null;
+}
+
+interface PendingProgram {
+  program: WebGLProgram;
+  vertexShader: WebGLShader;
+  fragmentShader: WebGLShader;
+  vertexSource: PreprocessedShader;
+  fragmentSource: PreprocessedShader;
+}
+
+interface PassState {
+  options: PassOptions;
+  programInfo: ProgramInfo;
+  target: PingPongTarget;
 }
 
+/** Uniforms fed by ShaderUp itself rather than the `uniforms` object. */
+const BUILTIN_UNIFORMS = new Set(['u_time', 'u_deltaTime', 'u_frame', 'u_resolution']);
+
 /**
  * ShaderUp: A lightweight WebGL boilerplate for fragment shader rendering.
  * Handles context management, resizing, render loops, and uniform binding.
  */
-export class ShaderUp {
+export class ShaderUp<A extends string = string> {
   // --- Constants for GLSL Conventions ---
   public static readonly UNIFORM_TIME = 'u_time';
+  public static readonly UNIFORM_DELTA_TIME = 'u_deltaTime';
+  public static readonly UNIFORM_FRAME = 'u_frame';
   public static readonly UNIFORM_RESOLUTION = 'u_resolution';
   public static readonly ATTRIB_POSITION = 'a_position';
 
   // --- Public Readonly Properties ---
-  public readonly canvas: HTMLCanvasElement;
+  public readonly canvas: HTMLCanvasElement | OffscreenCanvas;
   public readonly gl: WebGLRenderingContext | WebGL2RenderingContext;
+  /**
+   * For 'instanced' mode, the byte layout of one instance in the buffer passed to `setData()`,
+   * derived from `attributes`. Use it to pack mixed-type data into an ArrayBuffer.
+   */
+  public readonly instanceLayout: InstanceLayout | null = null;
+  /**
+   * For 'instanced' mode, reads and writes instance data by attribute name.
+   * Written data is uploaded before the next frame.
+   * @example shader.instances.set(i, 'a_instanceColor', [1, 0, 0]);
+   */
+  public readonly instances: InstanceView<A> | null = null;
   
   /**
    * Public object to update custom uniform values.
+   * In 'demand' mode, assigning a property requests a redraw.
    * @example shader.uniforms.u_speed = 0.5;
    */
-  public readonly uniforms: { [name: string]: any } = {};
+  public readonly uniforms: { [name: string]: any };
+  // Backing object of `uniforms`. Internal writes go here so they don't request redraws.
+  private readonly uniformValues: { [name: string]: any } = {};
 
-  private readonly options: ShaderUpOptions;
+  private readonly options: ShaderUpOptions<A>;
+  private readonly renderer: ShaderUpRenderer | null;
+  // Where the last frame went in the renderer's drawing buffer
+  private outputRegion: ViewRegion | null = null;
 
   // --- Private Internal State ---
   private readonly renderMode: RenderMode;
-  private readonly attributeOptions?: { [name: string]: AttributeOptions };
+  private readonly renderState: RenderState;
   private numInstances: number;
 
   // --- Private Internal State ---
-  private program: WebGLProgram | null = null;
+  private program: ProgramInfo | null = null;
+  private passes: PassState[] = [];
   private animationFrameId: number | null = null;
+  private isRunning = false;
+  private needsRedraw = false;
   private resizeObserver: ResizeObserver | null = null;
+  private intersectionObserver: IntersectionObserver | null = null;
+  private isIntersecting = true;
+  private isDocumentVisible = true;
+  // For an OffscreenCanvas, the CSS size and device pixel ratio given to `setCanvasSize()`
+  private canvasSize: [number, number] | null = null;
+  private devicePixelRatio: number | null = null;
   private isDestroyed = false;
-  private uniformInfo: Map<string, UniformInfo> = new Map();
-  private textures: Map<number, WebGLTexture> = new Map();
+  private isExporting = false;
+  // Latest hot-swap request per target (undefined = main shader)
+  private shaderSwapGenerations: Map<string | undefined, number> = new Map();
+  private isContextLost = false;
+  private wasRunningBeforeLoss = false;
+  private textures: Map<string, WebGLTexture> = new Map();
+
+  private readonly clock: Clock;
+  private currentRenderScale: number;
+  private adaptiveResolution: AdaptiveResolution | null = null;
+  private lastFrameTimestamp: number | null = null;
+  // Matches the current devicePixelRatio; fires once it changes
+  private pixelRatioQuery: MediaQueryList | null = null;
+  private shadertoyMouse: ShadertoyMouse | null = null;
+  private pointerInput: PointerInput | null = null;
+  // Tweens, springs and keyframe tracks on uniforms, and on instance attributes by index
+  private readonly animator: Animator<string>;
+  private instanceAnimators: Map<A, Animator<number>> = new Map();
+  // The time values of the frame being drawn, for animations run in `onBeforeRender`
+  private frameTime: FrameTime = { time: 0, delta: 0, frame: 0 };
+  private textureSizes: Map<string, [number, number]> = new Map();
+
+  // CPU-side copies of uploaded data, replayed after a context restore.
+  // Instance data is kept in `instances`.
+  private textureSources: Map<string, { source: TexImageSource | DataTexture; options: TextureOptions }> = new Map();
+  // Textures re-uploaded when their source has a new frame
+  private liveTextures: Map<string, LiveTexture> = new Map();
+  private fullscreenBuffer: WebGLBuffer | null = null;
+  private geometryBuffers: WebGLBuffer[] = [];
+  private indexBuffer: WebGLBuffer | null = null;
   private instanceBuffer: WebGLBuffer | null = null;
-  
-  // Cache locations for standard uniforms to avoid map lookups in the loop
-  private timeLocation: WebGLUniformLocation | null = null;
-  private resolutionLocation: WebGLUniformLocation | null = null;
-  
+  // Allocated size of `instanceBuffer`, which grows ahead of the instance count
+  private instanceBufferBytes = 0;
+  // The geometry for 'mesh' and 'instanced' mode, kept for context restores
+  private geometry: PreparedGeometry | null = null;
+  // Draw call parameters of the current geometry
+  private geometryDraw: { mode: number; count: number; indexType: number | null } | null = null;
+
+  // Vertex array objects (WebGL2 only) keep pass and main geometry state apart
+  private fullscreenVao: WebGLVertexArrayObject | null = null;
+  private geometryVao: WebGLVertexArrayObject | null = null;
+
+  // Teardown registered by factories such as `fromElements`, run on dispose
+  private readonly cleanups: (() => void)[] = [];
+
   // Pre-bound render function to prevent garbage collection thrashing
   private readonly boundRender: (time: number) => void;
 
@@ -115,24 +454,58 @@ export class ShaderUp {
    * Creates a new ShaderUp instance.
    * @param options Configuration options.
    * @throws Error if WebGL is not supported or canvas is missing.
+   * @throws ShaderCompileError / ShaderLinkError if the shaders do not build.
    */
-  constructor(options: ShaderUpOptions) {
-    this.options = options;
+  constructor(options: ShaderUpOptions<A>) {
+    // Copied so hot-swapped shaders can be recorded for context restoration
+    this.options = { ...options, passes: options.passes?.map(pass => ({ ...pass })) };
     this.renderMode = options.renderMode || 'fullscreen';
+    this.renderState = {
+      blend: options.blend ?? 'none',
+      depth: options.depth === true ? {} : options.depth || null,
+      stencil: options.stencil ?? null,
+      clear: options.clear ?? 'auto',
+      clearColor: options.clearColor ?? [0, 0, 0, 0],
+    };
+    this.animator = new Animator(() => this.invalidate());
+    this.uniforms = new Proxy(this.uniformValues, {
+      set: (target, name: string, value) => {
+        // A spring bound to the uniform heads for the value; other animations of it stop
+        if (!this.animator.retarget(name, value)) {
+          this.animator.cancel(name);
+          target[name] = value;
+        }
+        this.invalidate();
+        return true;
+      },
+      deleteProperty: (target, name: string) => {
+        this.animator.cancel(name);
+        delete target[name];
+        this.invalidate();
+        return true;
+      },
+    });
     
     // Validate options for instanced mode
     if (this.renderMode === 'instanced') {
-      if (!options.numInstances) {
+      if (options.numInstances === undefined) {
         throw new Error("[ShaderUp] 'numInstances' is required for 'instanced' renderMode.");
       }
       if (!options.attributes) {
         throw new Error("[ShaderUp] 'attributes' are required for 'instanced' renderMode.");
       }
       this.numInstances = options.numInstances;
-      this.attributeOptions = options.attributes;
+      this.instanceLayout = createInstanceLayout(options.attributes);
+      this.instances = new InstanceView<A>(this.instanceLayout, this.numInstances, () => this.invalidate());
     } else {
       this.numInstances = 0;
     }
+    if (this.renderMode === 'mesh' && !options.geometry) {
+      throw new Error("[ShaderUp] 'geometry' is required for 'mesh' renderMode.");
+    }
+    if (this.renderMode !== 'fullscreen') {
+      this.geometry = prepareGeometry(options.geometry ?? UNIT_QUAD);
+    }
 
     // 1. Resolve Canvas
     if (options.canvas) {
@@ -141,6 +514,8 @@ export class ShaderUp {
       const el = document.getElementById(options.canvasId) as HTMLCanvasElement;
       if (!el) throw new Error(`[ShaderUp] Canvas #${options.canvasId} not found.`);
       this.canvas = el;
+    } else if (options.context && typeof options.context !== 'function' && options.context.canvas) {
+      this.canvas = options.context.canvas;
     } else {
       const el = document.querySelector('canvas');
       if (!el) throw new Error("[ShaderUp] No <canvas> element found on page.");
@@ -148,16 +523,35 @@ export class ShaderUp {
     }
 
     // 2. Initialize Context (Prefer WebGL 2, Fallback to WebGL 1)
-    const contextAttributes: WebGLContextAttributes = { 
+    const contextAttributes: WebGLContextAttributes = {
       alpha: true, // Alpha needed for overlays
-      antialias: false 
-    }; 
-    
+      antialias: false,
+      stencil: !!options.stencil,
+      ...options.contextAttributes,
+    };
+
     let gl: WebGLRenderingContext | WebGL2RenderingContext | null;
 
-    if (this.renderMode === 'instanced') {
+    this.renderer = options.renderer ?? null;
+    if (this.renderer?.mode === 'overlay' && !this.isCanvasElement) {
+      throw new Error("[ShaderUp] Views of an 'overlay' renderer need a canvas element.");
+    }
+    if (this.renderer) {
+      gl = this.renderer.gl;
+      if (options.contextAttributes) {
+        console.warn("[ShaderUp] Warning: 'contextAttributes' is ignored with a renderer. Pass them to the renderer instead.");
+      }
+      if (this.renderMode !== 'fullscreen' && !this.isWebGL2(gl)) {
+        throw new Error(`[ShaderUp] WebGL2 is required for '${this.renderMode}' renderMode.`);
+      }
+    } else if (options.context) {
+      gl = typeof options.context === 'function' ? options.context(this.canvas, contextAttributes) : options.context;
+      if (gl && this.renderMode !== 'fullscreen' && !this.isWebGL2(gl)) {
+        throw new Error(`[ShaderUp] WebGL2 is required for '${this.renderMode}' renderMode.`);
+      }
+    } else if (this.renderMode !== 'fullscreen') {
       gl = this.canvas.getContext('webgl2', contextAttributes) as WebGL2RenderingContext;
-      if (!gl) throw new Error("[ShaderUp] WebGL2 is required for 'instanced' renderMode.");
+      if (!gl) throw new Error(`[ShaderUp] WebGL2 is required for '${this.renderMode}' renderMode.`);
     } else {
       gl = this.canvas.getContext('webgl2', contextAttributes) as WebGL2RenderingContext;
       if (!gl) {
@@ -167,388 +561,1725 @@ export class ShaderUp {
     
     if (!gl) throw new Error("[ShaderUp] WebGL not supported in this browser.");
     this.gl = gl;
+    if (options.stencil && !gl.getContextAttributes()?.stencil) {
+      console.warn("[ShaderUp] Warning: The context has no stencil buffer, so 'stencil' has no effect.");
+    }
 
 
     // 3. Bind Robustness Events
-    this.canvas.addEventListener('webglcontextlost', this.handleContextLost);
-    this.canvas.addEventListener('webglcontextrestored', this.handleContextRestored);
+    this.contextCanvas.addEventListener('webglcontextlost', this.handleContextLost);
+    this.contextCanvas.addEventListener('webglcontextrestored', this.handleContextRestored);
 
     // 4. Setup Resources
+    this.currentRenderScale = options.renderScale ?? 1;
+    if (options.adaptiveResolution) {
+      const adaptiveOptions = options.adaptiveResolution === true ? {} : options.adaptiveResolution;
+      this.adaptiveResolution = new AdaptiveResolution(this.currentRenderScale, {
+        maxScale: this.currentRenderScale,
+        targetFps: options.fps,
+        ...adaptiveOptions,
+      });
+      this.currentRenderScale = this.adaptiveResolution.scale;
+    }
     this.initResources(options);
 
-    // 5. Setup Resize Observer
-    this.resizeObserver = new ResizeObserver(() => this.handleResize(options.onResize));
-    this.resizeObserver.observe(this.canvas);
-    
-    // 6. Bind Loop
+    // 5. Setup Clock & Input Tracking
+    this.clock = new Clock({ playbackRate: options.playbackRate, fixedTimestep: options.fixedTimestep });
+    const canvasElement = this.isCanvasElement ? this.canvas as HTMLCanvasElement : null;
+    if (options.shadertoy && canvasElement) {
+      this.shadertoyMouse = new ShadertoyMouse(canvasElement);
+    }
+    if (options.input && canvasElement) {
+      const inputOptions = options.input === true ? {} : options.input;
+      this.pointerInput = new PointerInput(canvasElement, inputOptions, () => this.invalidate());
+    } else if (options.input) {
+      console.warn("[ShaderUp] Warning: 'input' needs a canvas element and is ignored for an OffscreenCanvas.");
+    }
+
+    // 6. Setup Resize Observer. An OffscreenCanvas is sized through `setCanvasSize()` instead.
+    if (canvasElement) {
+      this.resizeObserver = new ResizeObserver(() => this.handleResize(options.onResize));
+      this.resizeObserver.observe(canvasElement);
+    }
+    this.watchPixelRatio();
+
+    // 7. Suspend the loop while nobody can see the canvas
+    if ((options.autoPause ?? true) && canvasElement) {
+      if (typeof IntersectionObserver !== 'undefined') {
+        this.intersectionObserver = new IntersectionObserver(this.handleIntersection);
+        this.intersectionObserver.observe(canvasElement);
+      }
+      if (typeof document !== 'undefined') {
+        this.isDocumentVisible = document.visibilityState !== 'hidden';
+        document.addEventListener('visibilitychange', this.handleVisibilityChange);
+      }
+    }
+
+    // 8. Bind Loop
     this.boundRender = this.render.bind(this);
+    this.renderer?.addView(this);
   }
 
   /**
    * Internal method to compile shaders and setup buffers.
    * Separated to allow re-initialization on context restoration.
    */
-  private initResources(options: ShaderUpOptions): void {
+  private initResources(options: ShaderUpOptions<A>): void {
     const { gl } = this;
-    
-    const vsSource = options.vertexShader || this.getDefaultVertexShader();
-    const vertexShader = this.createShader(gl.VERTEX_SHADER, vsSource);
-    const fragmentShader = this.createShader(gl.FRAGMENT_SHADER, options.fragmentShader);
-    
-    this.program = this.createProgram(vertexShader, fragmentShader);
 
-    // Clean up individual shaders as they are now linked into the program
-    gl.deleteShader(vertexShader);
-    gl.deleteShader(fragmentShader);
+    const vsSource = options.vertexShader || this.getDefaultVertexShader(options.fragmentShader);
+    const program = this.finishProgram(this.startProgram(vsSource, options.fragmentShader));
+    this.program = this.reflectProgram(program, options.uniforms, options.inputs);
+
+    // Setup offscreen passes. Their targets are sized by the initial resize below.
+    for (const passOptions of options.passes ?? []) {
+      const vs = passOptions.vertexShader || this.getDefaultVertexShader(passOptions.fragmentShader, 'fullscreen');
+      const passProgram = this.finishProgram(this.startProgram(vs, passOptions.fragmentShader, passOptions.defines));
+      this.passes.push({
+        options: passOptions,
+        programInfo: this.reflectProgram(passProgram, passOptions.uniforms, passOptions.inputs),
+        target: new PingPongTarget(gl, 1, 1, passOptions),
+      });
+    }
 
-    if (this.renderMode === 'fullscreen') {
+    if (this.renderMode === 'fullscreen' || this.passes.length > 0) {
       this.initFullscreenResources();
-    } else {
-      this.initInstancedResources();
+    }
+    if (this.renderMode !== 'fullscreen') {
+      this.initGeometryResources();
     }
 
-    // Cache Standard Uniform Locations
-    this.timeLocation = gl.getUniformLocation(this.program, ShaderUp.UNIFORM_TIME);
-    this.resolutionLocation = gl.getUniformLocation(this.program, ShaderUp.UNIFORM_RESOLUTION);
+    // Initial resize to set viewport and pass target sizes
+    this.handleResize(options.onResize, true);
+  }
 
-    // Process Custom Uniforms
-    if (options.uniforms) {
-      let texUnitCount = 0;
-      for (const [name, type] of Object.entries(options.uniforms)) {
-        const location = gl.getUniformLocation(this.program, name);
-        if (!location) {
-          console.warn(`[ShaderUp] Uniform "${name}" not found in shader source (it may be unused and optimized out).`);
-          continue;
+  /**
+   * Reflects the active uniforms of a linked program.
+   * Samplers listed in `inputs` are bound to render pass outputs.
+   */
+  private reflectProgram(
+    program: WebGLProgram,
+    uniforms?: { [name: string]: UniformType },
+    inputs?: { [uniform: string]: string }
+  ): ProgramInfo {
+    const { gl } = this;
+
+    const info: ProgramInfo = {
+      program,
+      uniformInfo: new Map(),
+      // Cache Standard Uniform Locations
+      timeLocation: gl.getUniformLocation(program, ShaderUp.UNIFORM_TIME),
+      deltaTimeLocation: gl.getUniformLocation(program, ShaderUp.UNIFORM_DELTA_TIME),
+      frameUniform: null,
+      resolutionLocation: gl.getUniformLocation(program, ShaderUp.UNIFORM_RESOLUTION),
+    };
+
+    // Reflect every active uniform. Samplers get consecutive texture units.
+    let texUnitCount = 0;
+    for (const active of reflectUniforms(gl, program)) {
+      if (active.name === ShaderUp.UNIFORM_FRAME) {
+        info.frameUniform = { location: active.location, type: active.type };
+        continue;
+      }
+      if (BUILTIN_UNIFORMS.has(active.name)) continue;
+
+      const uniform: UniformInfo = {
+        location: active.location,
+        type: active.type,
+        size: active.size,
+        path: parseUniformPath(active.name),
+      };
+
+      if (isSamplerType(active.type)) {
+        uniform.textureUnit = texUnitCount;
+        texUnitCount += active.size;
+      }
+
+      const passName = inputs?.[active.name];
+      if (passName !== undefined) {
+        if (active.type !== 'sampler2D') {
+          throw new Error(`[ShaderUp] Input "${active.name}" must be a sampler2D, found '${active.type}'.`);
         }
+        uniform.pass = passName;
+      }
 
-        const info: UniformInfo = { location, type };
+      info.uniformInfo.set(active.name, uniform);
 
-        if (type === 'sampler2D') {
-          info.textureUnit = texUnitCount++;
+      // Plain uniforms get a default value; arrays and struct members are read from whatever the user assigns
+      if (uniform.path.length === 1 && !(active.name in this.uniformValues)) {
+        this.uniformValues[active.name] = getDefaultUniformValue(active.type, active.size);
+      }
+    }
+
+    // Declared uniforms are optional and only validated against the shader
+    if (uniforms) {
+      for (const [name, type] of Object.entries(uniforms)) {
+        const uniform = info.uniformInfo.get(name);
+        if (!uniform) {
+          console.warn(`[ShaderUp] Uniform "${name}" not found in shader source (it may be unused and optimized out).`);
+        } else if (uniform.type !== type) {
+          console.warn(`[ShaderUp] Uniform "${name}" is declared as '${type}' but the shader uses '${uniform.type}'.`);
         }
+      }
+    }
 
-        this.uniformInfo.set(name, info);
-        this.uniforms[name] = this.getDefaultUniformValue(type);
+    // Validate Pass Inputs
+    if (inputs) {
+      for (const [name, passName] of Object.entries(inputs)) {
+        if (!this.options.passes?.some(pass => pass.name === passName)) {
+          throw new Error(`[ShaderUp] Input "${name}" references unknown pass "${passName}".`);
+        }
+        if (!info.uniformInfo.has(name)) {
+          console.warn(`[ShaderUp] Input sampler "${name}" not found in shader source (it may be unused and optimized out).`);
+        }
       }
     }
-    
-    // Initial resize to set viewport
-    this.handleResize(options.onResize);
+
+    return info;
   }
 
   private initFullscreenResources(): void {
-    const { gl, program } = this;
-    if (!program) return;
+    const { gl } = this;
 
     // Setup Full-Screen Triangle Buffer
-    const positionBuffer = gl.createBuffer();
-    gl.bindBuffer(gl.ARRAY_BUFFER, positionBuffer);
+    this.fullscreenBuffer = gl.createBuffer();
+    if (this.isWebGL2(gl)) {
+      this.fullscreenVao = gl.createVertexArray();
+      gl.bindVertexArray(this.fullscreenVao);
+    }
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.fullscreenBuffer);
     gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([-1, -1, 3, -1, -1, 3]), gl.STATIC_DRAW);
 
-    const positionLoc = gl.getAttribLocation(program, ShaderUp.ATTRIB_POSITION);
-    gl.enableVertexAttribArray(positionLoc);
-    gl.vertexAttribPointer(positionLoc, 2, gl.FLOAT, false, 0, 0);
+    // 'a_position' is bound to location 0 in every program, so one pointer serves all passes
+    gl.enableVertexAttribArray(0);
+    gl.vertexAttribPointer(0, 2, gl.FLOAT, false, 0, 0);
+
+    if (this.isWebGL2(gl)) gl.bindVertexArray(null);
   }
 
-  private initInstancedResources(): void {
+  /**
+   * Sets up the vertex array for 'mesh' and 'instanced' mode: the geometry buffers,
+   * plus the instance buffer in 'instanced' mode.
+   */
+  private initGeometryResources(): void {
     const gl = this.gl as WebGL2RenderingContext; // Ensured by constructor check
-    const { program, attributeOptions } = this;
-    if (!program || !attributeOptions) return;
-    
-    // 1. Setup Base Geometry (a non-instanced quad)
-    const quadBuffer = gl.createBuffer();
-    gl.bindBuffer(gl.ARRAY_BUFFER, quadBuffer);
-    gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([0,0, 1,0, 0,1, 0,1, 1,0, 1,1]), gl.STATIC_DRAW);
-    
-    const quadLoc = gl.getAttribLocation(program, "a_quadVertex");
-    if (quadLoc !== -1) {
-      gl.enableVertexAttribArray(quadLoc);
-      gl.vertexAttribPointer(quadLoc, 2, gl.FLOAT, false, 0, 0);
-      gl.vertexAttribDivisor(quadLoc, 0); // Mark as per-vertex
+    const layout = this.instanceLayout;
+    const program = this.program?.program;
+    const geometry = this.geometry;
+    if (!program || !geometry) return;
+
+    this.geometryVao = gl.createVertexArray();
+    gl.bindVertexArray(this.geometryVao);
+
+    // 1. Setup Base Geometry (per-vertex). Attributes the shader doesn't use are skipped quietly,
+    // since generated geometries carry attributes that not every shader reads.
+    const integerAttributes = reflectIntegerAttributes(gl, program);
+    for (const attribute of geometry.attributes) {
+      const buffer = gl.createBuffer();
+      this.geometryBuffers.push(buffer);
+      gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+      gl.bufferData(gl.ARRAY_BUFFER, attribute.data, gl.STATIC_DRAW);
+
+      const loc = gl.getAttribLocation(program, attribute.name);
+      if (loc === -1) continue;
+      gl.enableVertexAttribArray(loc);
+      if (integerAttributes.has(attribute.name) && isIntegerType(attribute.type) && !attribute.normalized) {
+        gl.vertexAttribIPointer(loc, attribute.size, gl[attribute.type], 0, 0);
+      } else {
+        gl.vertexAttribPointer(loc, attribute.size, gl[attribute.type], attribute.normalized, 0, 0);
+      }
+      gl.vertexAttribDivisor(loc, 0); // Mark as per-vertex
+    }
+
+    let indexType: number | null = null;
+    if (geometry.indices) {
+      // The element buffer binding is part of the vertex array
+      this.indexBuffer = gl.createBuffer();
+      gl.bindBuffer(gl.ELEMENT_ARRAY_BUFFER, this.indexBuffer);
+      gl.bufferData(gl.ELEMENT_ARRAY_BUFFER, geometry.indices, gl.STATIC_DRAW);
+      indexType = geometry.indices instanceof Uint32Array ? gl.UNSIGNED_INT
+        : geometry.indices instanceof Uint16Array ? gl.UNSIGNED_SHORT
+        : gl.UNSIGNED_BYTE;
+    }
+    this.geometryDraw = { mode: gl[geometry.mode], count: geometry.count, indexType };
+
+    if (this.renderMode !== 'instanced' || !layout) {
+      gl.bindVertexArray(null);
+      return;
     }
 
-    // 2. Setup Instanced Data Buffer
+    // 2. Setup Instanced Data Buffer, filled with the current instance data
     this.instanceBuffer = gl.createBuffer();
+    this.instanceBufferBytes = 0;
+    this.reserveInstanceBuffer(this.instances?.buffer.byteLength ?? 0);
+    this.instances?.clearDirty();
     gl.bindBuffer(gl.ARRAY_BUFFER, this.instanceBuffer);
 
-    // 3. Calculate Stride and setup attribute pointers for the instance buffer
-    let instanceStride = 0;
-    for (const name in attributeOptions) {
-      const opts = attributeOptions[name];
-      // Stride is in bytes. Assumes FLOAT for now.
-      instanceStride += opts.size * 4; 
-    }
-    
-    let offset = 0;
-    for (const name in attributeOptions) {
-      const opts = attributeOptions[name];
+    // 3. Setup attribute pointers for the instance buffer
+    for (const attribute of layout.attributes) {
+      const { name } = attribute;
       const loc = gl.getAttribLocation(program, name);
       if (loc === -1) {
         console.warn(`[ShaderUp] Instanced attribute "${name}" not found in shader.`);
         continue;
       }
-      
-      gl.enableVertexAttribArray(loc);
-      const glType = gl.FLOAT; 
-      gl.vertexAttribPointer(loc, opts.size, glType, false, instanceStride, offset);
-      gl.vertexAttribDivisor(loc, 1); // Mark as per-instance
 
-      offset += opts.size * 4;
+      const glType = gl[attribute.type];
+      if (integerAttributes.has(name)) {
+        // int/uint inputs must be fed unconverted integers
+        if (!isIntegerType(attribute.type) || attribute.normalized) {
+          console.warn(`[ShaderUp] Attribute "${name}" is an integer in the shader but declared as ${attribute.normalized ? 'normalized ' : ''}'${attribute.type}'.`);
+          continue;
+        }
+        gl.enableVertexAttribArray(loc);
+        gl.vertexAttribIPointer(loc, attribute.size, glType, layout.stride, attribute.offset);
+      } else {
+        gl.enableVertexAttribArray(loc);
+        gl.vertexAttribPointer(loc, attribute.size, glType, attribute.normalized, layout.stride, attribute.offset);
+      }
+      gl.vertexAttribDivisor(loc, attribute.divisor);
     }
+
+    gl.bindVertexArray(null);
   }
 
   /**
    * For 'instanced' mode, sets the data for all instances.
-   * @param data An array containing the interleaved attribute data for all instances.
+   * Data for more instances than `instanceCount` grows the count; data for fewer leaves the remaining ones untouched.
+   * @param data The interleaved attribute data for all instances. A Float32Array when every
+   * attribute is a float, otherwise an ArrayBuffer (or any view) packed as described by `instanceLayout`.
    */
-  public setData(data: Float32Array): void {
-    if (this.renderMode !== 'instanced' || this.isDestroyed) return;
+  public setData(data: BufferSource): void {
+    if (this.renderMode !== 'instanced' || this.isDestroyed || !this.instances || !this.instanceLayout) return;
+    const bytes = toBytes(data);
+    const { stride } = this.instanceLayout;
+    if (bytes.byteLength > this.instances.buffer.byteLength) {
+      this.setInstanceCount(Math.ceil(bytes.byteLength / stride));
+    }
+
+    // Keep `instances` in sync; it is also what gets replayed after a context restore.
+    // Pending edits past the end of the data still have to be uploaded.
+    new Uint8Array(this.instances.buffer).set(bytes);
+    this.instances.clearDirty(0, Math.floor(bytes.byteLength / stride));
+    if (this.isContextLost) return;
+
     const gl = this.gl;
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.instanceBuffer);
+    gl.bufferSubData(gl.ARRAY_BUFFER, 0, bytes);
+    this.invalidate();
+  }
+
+  /**
+   * For 'instanced' mode, replaces the data of consecutive instances with `bufferSubData`,
+   * leaving the others untouched.
+   * @param offset Index of the first instance to replace.
+   * @param data Interleaved data for one or more whole instances, laid out like in `setData()`.
+   * @throws RangeError if the data extends past the last instance.
+   */
+  public updateData(offset: number, data: BufferSource): void {
+    if (this.renderMode !== 'instanced' || this.isDestroyed || !this.instances || !this.instanceLayout) return;
+    const bytes = toBytes(data);
+    const byteOffset = offset * this.instanceLayout.stride;
+
+    const { buffer } = this.instances;
+    if (offset < 0 || byteOffset + bytes.byteLength > buffer.byteLength) {
+      throw new RangeError(`[ShaderUp] updateData() writes past the last instance (${this.numInstances} instances).`);
+    }
+    new Uint8Array(buffer).set(bytes, byteOffset);
+    if (this.isContextLost) return;
 
+    const gl = this.gl;
     gl.bindBuffer(gl.ARRAY_BUFFER, this.instanceBuffer);
-    gl.bufferData(gl.ARRAY_BUFFER, data, gl.DYNAMIC_DRAW);
+    gl.bufferSubData(gl.ARRAY_BUFFER, byteOffset, bytes);
+    this.invalidate();
+  }
+
+  /**
+   * For 'instanced' mode, changes the number of instances drawn.
+   * Existing instance data is kept and added instances start zeroed.
+   */
+  public setInstanceCount(count: number): void {
+    if (this.renderMode !== 'instanced' || this.isDestroyed || !this.instances) return;
+    if (!Number.isInteger(count) || count < 0) {
+      throw new RangeError(`[ShaderUp] Invalid instance count ${count}.`);
+    }
+
+    this.numInstances = count;
+    this.instances.resize(count);
+    if (!this.isContextLost) this.reserveInstanceBuffer(this.instances.buffer.byteLength);
+    this.invalidate();
+  }
+
+  /**
+   * For 'mesh' and 'instanced' mode, replaces the geometry. In 'instanced' mode, `null` restores the unit quad.
+   */
+  public setGeometry(geometry: Geometry | null): void {
+    if (this.renderMode === 'fullscreen' || this.isDestroyed) return;
+    if (!geometry && this.renderMode === 'mesh') {
+      throw new Error("[ShaderUp] 'geometry' is required for 'mesh' renderMode.");
+    }
+
+    this.geometry = prepareGeometry(geometry ?? UNIT_QUAD);
+    if (!this.isContextLost) this.rebuildGeometryResources();
+    this.invalidate();
+  }
+
+  /** For 'instanced' mode, the number of instances drawn. */
+  public get instanceCount(): number {
+    return this.numInstances;
   }
 
 
   /**
-   * Updates a texture for a specific uniform.
+   * Updates a texture for a specific uniform. Its size is exposed as `<name>Resolution` (vec2),
+   * e.g. `u_noiseResolution` for `u_noise`.
    * @param name The name of the uniform (must be defined as 'sampler2D' in options).
-   * @param image The source image, video, or canvas.
+   * @param image The source image, video, or canvas, or raw texel data such as
+   * `{ data: new Float32Array(...), width: 256, height: 1, format: 'RGBA32F' }`.
+   * @param options Wrap, filtering, mipmaps and upload options. Defaults to clamped, linear and no mipmaps.
    */
-  public setTexture(name: string, image: TexImageSource): void {
+  public setTexture(name: string, image: TexImageSource | DataTexture, options: TextureOptions = {}): void {
     if (this.isDestroyed) return;
-    
-    const info = this.uniformInfo.get(name);
-    if (!info || info.type !== 'sampler2D' || info.textureUnit === undefined) {
+
+    if (!this.isTextureUniform(name)) {
       console.warn(`[ShaderUp] Warning: "${name}" is not a registered sampler2D uniform.`);
       return;
     }
 
+    this.textureSources.set(name, { source: image, options });
+    if (this.isContextLost) return;
+
     const gl = this.gl;
-    let texture = this.textures.get(info.textureUnit);
+    let texture = this.textures.get(name);
     
     // Lazy creation of texture
     if (!texture) {
       texture = gl.createTexture()!;
-      this.textures.set(info.textureUnit, texture);
+      this.textures.set(name, texture);
     }
 
-    gl.activeTexture(gl.TEXTURE0 + info.textureUnit);
-    gl.bindTexture(gl.TEXTURE_2D, texture);
-    
-    // Standard parameters for non-power-of-two support
-    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
-    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
-    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
-    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
-    
-    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, image);
+    const size = isDataTexture(image) ? [image.width, image.height] as [number, number] : this.getSourceSize(image);
+
+    // Shadertoy samples images with a bottom-left origin
+    if (!uploadTexture(gl, texture, image, options, size, !!this.options.shadertoy)) {
+      // Unsupported formats (already warned about) would leave an empty texture to sample, so none is bound
+      gl.deleteTexture(texture);
+      this.textures.delete(name);
+      this.textureSizes.delete(name);
+      this.textureSources.delete(name);
+      delete this.uniformValues[`${name}Resolution`];
+      this.invalidate();
+      return;
+    }
+    this.textureSizes.set(name, size);
+    this.uniformValues[`${name}Resolution`] = size;
+    this.invalidate();
   }
 
   /**
-   * Starts the rendering loop.
+   * Loads an image and uses it as a texture, like `setTexture`.
+   * @param name The name of the sampler2D uniform.
+   * @param url The image URL. Cross-origin images need CORS headers.
+   * @param options Wrap, filtering, mipmaps and upload options.
+   * @returns Resolves with the image once it is uploaded.
+   * @throws Error (as a rejection) if the image cannot be loaded, or outside a document.
    */
-  public start(): void {
-    if (!this.animationFrameId && !this.isDestroyed) {
-      this.animationFrameId = requestAnimationFrame(this.boundRender);
+  public async loadTexture(name: string, url: string, options: TextureOptions = {}): Promise<HTMLImageElement> {
+    if (typeof Image === 'undefined') {
+      throw new Error("[ShaderUp] loadTexture() needs a document. In a worker, pass an ImageBitmap to setTexture().");
     }
+    const image = new Image();
+    image.crossOrigin = 'anonymous';
+    image.src = url;
+    try {
+      await image.decode();
+    } catch {
+      throw new Error(`[ShaderUp] Failed to load texture "${name}" from ${url}.`);
+    }
+
+    this.setTexture(name, image, options);
+    return image;
   }
 
   /**
-   * Stops the rendering loop. Resources remain valid.
+   * Keeps a texture in sync with a video or canvas. Videos upload once per new frame and
+   * not at all while paused; canvases upload on every frame drawn (call `invalidate()`
+   * after drawing to them with `frameloop: 'demand'`).
+   * @param name The name of the sampler2D uniform.
+   * @param source The video or canvas to follow. Replaces any live source bound to `name`.
+   * @param options Wrap, filtering and upload options, as for `setTexture`.
    */
-  public stop(): void {
-    if (this.animationFrameId) {
-      cancelAnimationFrame(this.animationFrameId);
-      this.animationFrameId = null;
-    }
+  public bindLiveTexture(name: string, source: LiveTextureSource, options: TextureOptions = {}): void {
+    this.bindLiveSource(name, new LiveTexture(source, options, () => this.invalidate()));
   }
 
   /**
-   * Completely disposes of the WebGL context resources and listeners.
-   * Call this when the component is unmounted.
+   * Stops updating a texture bound with `bindLiveTexture` or `bindCamera`. The last frame stays in place.
    */
-  public dispose(): void {
-    this.stop();
-    this.isDestroyed = true;
+  public unbindLiveTexture(name: string): void {
+    this.liveTextures.get(name)?.dispose();
+    this.liveTextures.delete(name);
+  }
 
-    if (this.resizeObserver) {
-      this.resizeObserver.disconnect();
-      this.resizeObserver = null;
+  /**
+   * Opens a camera and streams it into a texture, e.g. for webcam filters.
+   * The camera is released by `unbindLiveTexture(name)` or `dispose()`.
+   * @param name The name of the sampler2D uniform.
+   * @param constraints Which camera and resolution to ask for. Defaults to any camera.
+   * @param options Wrap, filtering and upload options, as for `setTexture`.
+   * @returns Resolves with the playing video once the stream is bound.
+   * @throws Error (as a rejection) if the camera is unavailable or permission is denied.
+   */
+  public async bindCamera(
+    name: string,
+    constraints: MediaTrackConstraints = {},
+    options: TextureOptions = {}
+  ): Promise<HTMLVideoElement> {
+    if (!this.isTextureUniform(name)) {
+      throw new Error(`[ShaderUp] "${name}" is not a registered sampler2D uniform.`);
     }
 
-    this.canvas.removeEventListener('webglcontextlost', this.handleContextLost);
-    this.canvas.removeEventListener('webglcontextrestored', this.handleContextRestored);
-
-    const gl = this.gl;
-    
-    // Resource cleanup
-    this.textures.forEach(tex => gl.deleteTexture(tex));
-    this.textures.clear();
-
-    if (this.instanceBuffer) {
-      gl.deleteBuffer(this.instanceBuffer);
-      this.instanceBuffer = null;
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ video: constraints, audio: false });
+    } catch (error) {
+      throw new Error(`[ShaderUp] Cannot open a camera for "${name}": ${(error as Error).message}`);
+    }
+    const stopStream = () => stream.getTracks().forEach(track => track.stop());
+    if (this.isDestroyed) {
+      stopStream();
+      throw new Error("[ShaderUp] Cannot bind a camera after dispose().");
     }
 
-    if (this.program) {
-      gl.deleteProgram(this.program);
-      this.program = null;
+    const video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    video.srcObject = stream;
+    try {
+      await video.play();
+    } catch (error) {
+      stopStream();
+      throw new Error(`[ShaderUp] Cannot play the camera stream for "${name}": ${(error as Error).message}`);
     }
-    
-    // Note: Buffer cleanup is omitted for brevity but recommended for strict memory management
+
+    this.bindLiveSource(name, new LiveTexture(video, options, () => this.invalidate(), stopStream));
+    return video;
   }
 
-  // --- Private Helpers ---
+  /**
+   * Replaces the fragment and/or vertex shader while the canvas keeps rendering.
+   * The new program is compiled in the background and swapped in once linked; uniform
+   * values and textures carry over. If compilation fails, the last good program stays
+   * active and the error is passed to `onShaderError`.
+   * @param shaders The new shader sources. Omitted stages keep their current source.
+   * @param pass Name of a render pass to update instead of the main shader.
+   * @returns Resolves to true if the new program was swapped in.
+   */
+  public async setShaders(shaders: { fragmentShader?: string; vertexShader?: string }, pass?: string): Promise<boolean> {
+    if (this.isDestroyed || this.isContextLost) return false;
 
-  private handleContextLost = (e: Event): void => {
-    e.preventDefault();
-    this.stop();
-    console.warn("[ShaderUp] Context Lost");
-  };
+    const passState = pass !== undefined ? this.passes.find(p => p.options.name === pass) : undefined;
+    if (pass !== undefined && !passState) {
+      this.reportShaderError(new Error(`[ShaderUp] Unknown pass "${pass}".`));
+      return false;
+    }
 
-  private handleContextRestored = (): void => {
-    console.log("[ShaderUp] Context Restored - Re-initializing...");
-    // In a real implementation, you would need to re-fetch shaders or cache the options object
-    // to pass it back to initResources here.
-  };
+    const target = passState ? passState.options : this.options;
+    const fragmentShader = shaders.fragmentShader ?? target.fragmentShader;
+    const vertexShader = shaders.vertexShader ?? target.vertexShader;
+    const vsSource = vertexShader || this.getDefaultVertexShader(fragmentShader, passState ? 'fullscreen' : this.renderMode);
+
+    // Only the most recent request is applied; older in-flight compiles are discarded
+    const generation = (this.shaderSwapGenerations.get(pass) ?? 0) + 1;
+    this.shaderSwapGenerations.set(pass, generation);
+    const isLatest = () => this.shaderSwapGenerations.get(pass) === generation;
+
+    let program: WebGLProgram;
+    try {
+      program = await this.finishProgramInBackground(
+        this.startProgram(vsSource, fragmentShader, passState?.options.defines)
+      );
+    } catch (error) {
+      if (isLatest()) this.reportShaderError(error as Error);
+      return false;
+    }
 
-  private getDefaultUniformValue(type: UniformType): any {
-    switch (type) {
-      case 'float': return 0.0;
-      case 'vec2': return [0, 0];
-      case 'vec3': return [0, 0, 0];
-      case 'vec4': return [0, 0, 0, 0];
-      case 'int': return 0;
-      case 'sampler2D': return null;
-      default: return null;
+    if (!isLatest() || this.isDestroyed || this.isContextLost) {
+      this.gl.deleteProgram(program);
+      return false;
     }
-  }
 
-  private getDefaultVertexShader(): string {
-    if (this.renderMode === 'instanced') {
-      // This shader is a generic version of the one from the prototype.
-      // It expects instance attributes for position/size and passes them on.
-      // Users can replace it with a more specific one.
-      return `#version 300 es
-        in vec2 a_quadVertex; // (0,0) to (1,1)
-        
-        // Example instance attributes (users must define these in options)
-        in vec4 a_instanceRect;   // xy = pos, zw = size
-        
-        uniform vec2 u_resolution;
-        
-        out vec2 v_uv;
+    target.fragmentShader = fragmentShader;
+    target.vertexShader = vertexShader;
 
-        void main() {
-            // Create a screen-space position from the instance rect and quad vertex
-            vec2 finalPos = a_instanceRect.xy + (a_quadVertex * a_instanceRect.zw);
-        
-            // Convert from pixels to clip space
-            vec2 clipSpace = (finalPos / u_resolution) * 2.0 - 1.0;
-            clipSpace.y *= -1.0; // Flip Y for WebGL
-        
-            gl_Position = vec4(clipSpace, 0.0, 1.0);
-        
-            v_uv = a_quadVertex;
-        }
-      `;
+    const programInfo = this.reflectProgram(program, target.uniforms, target.inputs);
+    if (passState) {
+      this.gl.deleteProgram(passState.programInfo.program);
+      passState.programInfo = programInfo;
+    } else {
+      if (this.program) this.gl.deleteProgram(this.program.program);
+      this.program = programInfo;
+      // Attribute locations belong to the program, so the vertex setup is rebuilt
+      if (this.renderMode !== 'fullscreen') this.rebuildGeometryResources();
     }
-    
-    // Default fullscreen shader
-    return `
-      attribute vec2 ${ShaderUp.ATTRIB_POSITION};
-      void main() {
-        gl_Position = vec4(${ShaderUp.ATTRIB_POSITION}, 0.0, 1.0);
-      }
-    `;
+
+    this.invalidate();
+    return true;
   }
 
-  private createShader(type: number, source: string): WebGLShader {
-    const shader = this.gl.createShader(type);
-    if (!shader) throw new Error("[ShaderUp] Unable to create shader object.");
-    
-    this.gl.shaderSource(shader, source);
-    this.gl.compileShader(shader);
+  /**
+   * Replaces the fragment shader. See `setShaders()`.
+   */
+  public setFragmentShader(source: string, pass?: string): Promise<boolean> {
+    return this.setShaders({ fragmentShader: source }, pass);
+  }
+
+  /**
+   * Replaces the vertex shader. See `setShaders()`.
+   */
+  public setVertexShader(source: string, pass?: string): Promise<boolean> {
+    return this.setShaders({ vertexShader: source }, pass);
+  }
+
+  /**
+   * Starts the rendering loop, with time and the frame counter back at 0.
+   * Call `seek()` afterwards to start elsewhere. With `frameloop: 'never'` nothing is drawn until `renderFrame()`.
+   */
+  public start(): void {
+    if (this.isDestroyed) return;
+    if (!this.isRunning) this.clock.reset();
+    this.startLoop();
+  }
+
+  /**
+   * Requests a redraw in 'demand' mode. Assigning to `uniforms`, `setTexture()`, `setData()`
+   * and resizes already do this; call it after changing a value in place, e.g. `uniforms.u_color[0] = 1`.
+   * Several requests before the next frame result in a single redraw.
+   */
+  public invalidate(): void {
+    this.needsRedraw = true;
+    this.scheduleFrame();
+  }
+
+  /**
+   * Freezes `u_time`, `u_deltaTime` and `u_frame`. The loop keeps rendering, so uniform changes still show.
+   */
+  public pause(): void {
+    this.clock.pause();
+  }
+
+  /**
+   * Resumes time after `pause()`.
+   */
+  public resume(): void {
+    this.clock.resume();
+  }
+
+  /**
+   * Jumps to a playback time. The next frame renders exactly at this time.
+   * @param time Time in seconds.
+   */
+  public seek(time: number): void {
+    this.clock.seek(time);
+  }
+
+  /**
+   * Tweens a uniform from its current value to `target`, on the playback clock.
+   * Replaces any animation of the uniform; assigning to it in `uniforms` cancels the tween.
+   * @param name The uniform, e.g. 'u_intensity'. Scalars and vectors work alike.
+   * @returns A handle whose `finished` resolves with true once the target is reached.
+   * @example await shader.animate('u_color', [1, 0, 0], { duration: 0.5, easing: 'ease-out' }).finished;
+   */
+  public animate(name: string, target: AnimationValue, options: TweenOptions = {}): AnimationHandle {
+    return this.animator.tween(name, this.uniformValues[name], target, options);
+  }
+
+  /**
+   * Binds a spring to a uniform. From then on, assigning to it in `uniforms` sets where the spring heads,
+   * and the value follows with momentum. The spring stays bound until cancelled or replaced.
+   * @param options `target` heads there right away; without it the spring starts at rest.
+   * @returns A handle whose `finished` resolves with true once the spring first comes to rest.
+   * @example
+   * shader.spring('u_hover', { stiffness: 300, damping: 20 });
+   * canvas.onpointerenter = () => shader.uniforms.u_hover = 1;
+   */
+  public spring(name: string, options: SpringOptions & { target?: AnimationValue } = {}): AnimationHandle {
+    const { target, ...springOptions } = options;
+    return this.animator.spring(name, this.uniformValues[name], target, springOptions);
+  }
+
+  /**
+   * Plays a keyframe track on a uniform, on the playback clock.
+   * Replaces any animation of the uniform; assigning to it in `uniforms` cancels the track.
+   * @returns A handle whose `finished` resolves with true after the last play. Looping forever, it only settles when cancelled.
+   * @throws Error if there are no keyframes or their values differ in size.
+   * @example shader.keyframes('u_glow', [{ time: 0, value: 0 }, { time: 0.2, value: 1 }, { time: 1, value: 0 }], { loop: true });
+   */
+  public keyframes(name: string, keyframes: Keyframe[], options: KeyframeOptions = {}): AnimationHandle {
+    return this.animator.keyframes(name, keyframes, options);
+  }
+
+  /**
+   * For 'instanced' mode, tweens one instance's attribute, like `animate()` does a uniform.
+   * Replaces any animation of the same instance and attribute; writing the attribute directly does not stop it.
+   * @throws RangeError if the index is out of range, or Error if there is no such attribute.
+   * @example shader.animateInstance(3, 'a_scale', 1.5, { duration: 0.2, easing: 'ease-out-back' });
+   */
+  public animateInstance(index: number, attribute: A, target: AnimationValue, options: TweenOptions = {}): AnimationHandle {
+    const from = this.readInstance(index, attribute);
+    return this.getInstanceAnimator(attribute).tween(index, from, target, options);
+  }
+
+  /**
+   * For 'instanced' mode, springs one instance's attribute towards `target`, like `spring()` does a uniform.
+   * Calling it again with a new target keeps the spring's velocity.
+   * @throws RangeError if the index is out of range, or Error if there is no such attribute.
+   * @example card.onpointerenter = () => shader.springInstance(i, 'a_hover', { target: 1, stiffness: 300, damping: 18 });
+   */
+  public springInstance(
+    index: number,
+    attribute: A,
+    options: SpringOptions & { target?: AnimationValue } = {}
+  ): AnimationHandle {
+    const { target, ...springOptions } = options;
+    const from = this.readInstance(index, attribute);
+    return this.getInstanceAnimator(attribute).spring(index, from, target, springOptions);
+  }
+
+  /**
+   * For 'instanced' mode, plays a keyframe track on one instance's attribute, like `keyframes()` does a uniform.
+   * @throws RangeError if the index is out of range, or Error if there is no such attribute or no keyframes.
+   */
+  public keyframesInstance(index: number, attribute: A, keyframes: Keyframe[], options: KeyframeOptions = {}): AnimationHandle {
+    this.readInstance(index, attribute);
+    return this.getInstanceAnimator(attribute).keyframes(index, keyframes, options);
+  }
+
+  /** Current playback time in seconds, as seen by `u_time`. */
+  public get time(): number {
+    return this.clock.time;
+  }
+
+  /** Whether time is frozen by `pause()`. */
+  public get isPaused(): boolean {
+    return this.clock.isPaused;
+  }
+
+  /** Speed multiplier for time. 0.5 plays at half speed; negative values play backwards. */
+  public get playbackRate(): number {
+    return this.clock.playbackRate;
+  }
+
+  public set playbackRate(rate: number) {
+    this.clock.playbackRate = rate;
+  }
+
+  /** Seconds advanced per frame regardless of real time, or null to follow the display. */
+  public get fixedTimestep(): number | null {
+    return this.clock.fixedTimestep;
+  }
+
+  public set fixedTimestep(step: number | null) {
+    this.clock.fixedTimestep = step;
+  }
+
+  /**
+   * Drawing buffer pixels per CSS pixel currently in use:
+   * the (capped) pixel ratio multiplied by the render scale.
+   */
+  public get pixelRatio(): number {
+    const base = this.options.pixelRatio === undefined || this.options.pixelRatio === 'auto'
+      ? this.devicePixelRatio ?? (typeof devicePixelRatio !== 'undefined' ? devicePixelRatio : 1)
+      : this.options.pixelRatio;
+    return Math.min(base, this.options.maxPixelRatio ?? Infinity) * this.currentRenderScale;
+  }
+
+  /** Resolution multiplier on top of the pixel ratio. Managed automatically with `adaptiveResolution`. */
+  public get renderScale(): number {
+    return this.currentRenderScale;
+  }
+
+  public set renderScale(scale: number) {
+    if (scale <= 0) throw new Error("[ShaderUp] 'renderScale' must be greater than 0.");
+    this.currentRenderScale = scale;
+    if (this.adaptiveResolution) this.adaptiveResolution.scale = scale;
+    if (!this.isDestroyed && !this.isContextLost) this.handleResize(this.options.onResize, true);
+  }
+
+  /**
+   * Sets the size of an `OffscreenCanvas` in CSS pixels, which a canvas element takes from its layout.
+   * The drawing buffer becomes `size * pixelRatio`, like it would on the page.
+   * @param devicePixelRatio The page's `devicePixelRatio`, which workers cannot read. Defaults to 1 in workers.
+   */
+  public setCanvasSize(width: number, height: number, devicePixelRatio?: number): void {
+    this.canvasSize = [width, height];
+    if (devicePixelRatio !== undefined) this.devicePixelRatio = devicePixelRatio;
+    if (!this.isDestroyed && !this.isContextLost) this.handleResize(this.options.onResize, true);
+  }
+
+  /**
+   * Draws a single frame on demand, without ticking the clock or touching the render loop.
+   * @param time Playback time in seconds. Defaults to the current time.
+   */
+  public renderFrame(time: number = this.clock.time): void {
+    if (this.isDestroyed || this.isContextLost) return;
+    this.draw({ time, delta: 0, frame: this.clock.frame });
+  }
+
+  /**
+   * Renders a frame and encodes the canvas as an image.
+   * Works without `preserveDrawingBuffer`, since the frame is read back in the same task.
+   */
+  public capture(options: CaptureOptions = {}): Promise<Blob> {
+    if (this.isDestroyed || this.isContextLost) {
+      return Promise.reject(new Error("[ShaderUp] Cannot capture without a live context."));
+    }
+    if (this.renderer?.mode === 'overlay') {
+      return Promise.reject(new Error("[ShaderUp] Cannot capture a view of an 'overlay' renderer."));
+    }
+    this.renderFrame(options.time);
+    return canvasToBlob(this.canvas, options.type, options.quality);
+  }
+
+  /**
+   * Renders a frame and reads its pixels back.
+   * @param time Playback time in seconds. Defaults to the current time.
+   */
+  public captureImageData(time?: number): ImageData {
+    if (this.isDestroyed || this.isContextLost) {
+      throw new Error("[ShaderUp] Cannot capture without a live context.");
+    }
+    this.renderFrame(time);
+    return readPixels(this.gl, this.outputRegion ?? undefined);
+  }
+
+  /**
+   * Renders `frames` images at a fixed frame rate and output resolution, e.g. for loops
+   * and stills. The render loop is paused while exporting and the canvas size is restored afterwards.
+   * @returns The encoded frames, in order.
+   */
+  public async exportSequence(options: SequenceOptions): Promise<Blob[]> {
+    if (this.isDestroyed || this.isContextLost) {
+      throw new Error("[ShaderUp] Cannot export without a live context.");
+    }
+    if (this.renderer?.mode === 'overlay') {
+      throw new Error("[ShaderUp] Cannot export a view of an 'overlay' renderer.");
+    }
+
+    const fps = options.fps ?? 60;
+    const startTime = options.startTime ?? 0;
+    const width = options.width ?? this.canvas.width;
+    const height = options.height ?? this.canvas.height;
+
+    const previousWidth = this.canvas.width;
+    const previousHeight = this.canvas.height;
+    const wasRunning = this.isRunning;
+    this.stop();
+    this.isExporting = true;
+
+    const blobs: Blob[] = [];
+    try {
+      this.setDrawingBufferSize(width, height);
+
+      for (let i = 0; i < options.frames; i++) {
+        this.draw({ time: startTime + i / fps, delta: 1 / fps, frame: i });
+        blobs.push(await canvasToBlob(this.canvas, options.type, options.quality));
+        options.onProgress?.(i + 1, options.frames);
+        if (this.isDestroyed || this.isContextLost) {
+          throw new Error("[ShaderUp] Export was interrupted.");
+        }
+      }
+    } finally {
+      this.isExporting = false;
+      if (!this.isDestroyed) {
+        this.setDrawingBufferSize(previousWidth, previousHeight);
+        this.handleResize(this.options.onResize);
+        // The canvas still shows the last exported frame
+        this.invalidate();
+        if (wasRunning) this.startLoop();
+      }
+    }
+
+    return blobs;
+  }
+
+  /**
+   * Records the live canvas to video (WebM by default) with `MediaRecorder`.
+   * The render loop must be running for frames to be captured.
+   * @example
+   * const recording = shader.record({ duration: 5 });
+   * const video = await recording.result;
+   */
+  public record(options: RecordOptions = {}): Recording {
+    if (this.renderer?.mode === 'overlay') {
+      throw new Error("[ShaderUp] Cannot record a view of an 'overlay' renderer.");
+    }
+    if (!this.isCanvasElement) {
+      throw new Error("[ShaderUp] Recording needs a canvas element.");
+    }
+    return recordCanvas(this.canvas as HTMLCanvasElement, options);
+  }
+
+  /**
+   * Stops the rendering loop. Resources remain valid.
+   */
+  public stop(): void {
+    // A stop during context loss cancels the pending restart
+    if (this.isContextLost) this.wasRunningBeforeLoss = false;
+
+    this.isRunning = false;
+    this.cancelFrame();
+  }
+
+  /**
+   * Completely disposes of the WebGL context resources and listeners.
+   * Call this when the component is unmounted.
+   */
+  public dispose(): void {
+    this.stop();
+    this.isDestroyed = true;
+
+    if (this.resizeObserver) {
+      this.resizeObserver.disconnect();
+      this.resizeObserver = null;
+    }
+    this.pixelRatioQuery?.removeEventListener('change', this.handlePixelRatioChange);
+    this.pixelRatioQuery = null;
+
+    this.intersectionObserver?.disconnect();
+    this.intersectionObserver = null;
+    if (typeof document !== 'undefined') {
+      document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+    }
+
+    this.contextCanvas.removeEventListener('webglcontextlost', this.handleContextLost);
+    this.contextCanvas.removeEventListener('webglcontextrestored', this.handleContextRestored);
+
+    this.shadertoyMouse?.dispose();
+    this.shadertoyMouse = null;
+    this.pointerInput?.dispose();
+    this.pointerInput = null;
+
+    this.cleanups.forEach(cleanup => cleanup());
+    this.cleanups.length = 0;
+    this.animator.dispose();
+    this.instanceAnimators.forEach(animator => animator.dispose());
+    this.instanceAnimators.clear();
+    this.renderer?.removeView(this);
+    this.liveTextures.forEach(live => live.dispose());
+    this.liveTextures.clear();
+
+    this.releaseResources();
+    this.textureSources.clear();
+  }
+
+  // --- Private Helpers ---
+
+  /**
+   * Deletes every GPU resource owned by this instance.
+   */
+  private releaseResources(): void {
+    const gl = this.gl;
+
+    this.textures.forEach(tex => gl.deleteTexture(tex));
+    this.textures.clear();
+
+    for (const buffer of [this.fullscreenBuffer, this.indexBuffer, this.instanceBuffer, ...this.geometryBuffers]) {
+      if (buffer) gl.deleteBuffer(buffer);
+    }
+    this.fullscreenBuffer = null;
+    this.geometryBuffers = [];
+    this.indexBuffer = null;
+    this.instanceBuffer = null;
+
+    if (this.isWebGL2(gl)) {
+      if (this.fullscreenVao) gl.deleteVertexArray(this.fullscreenVao);
+      if (this.geometryVao) gl.deleteVertexArray(this.geometryVao);
+    }
+    this.fullscreenVao = null;
+    this.geometryVao = null;
+
+    for (const pass of this.passes) {
+      gl.deleteProgram(pass.programInfo.program);
+      pass.target.dispose();
+    }
+    this.passes = [];
+
+    if (this.program) {
+      gl.deleteProgram(this.program.program);
+      this.program = null;
+    }
+  }
+
+  /** The canvas that owns the context: the renderer's, or this instance's own. */
+  private get contextCanvas(): HTMLCanvasElement | OffscreenCanvas {
+    return this.renderer?.canvas ?? this.canvas;
+  }
+
+  /** Size of the main output in pixels. With a renderer, the shared buffer is larger than one view. */
+  private get outputSize(): [number, number] {
+    return this.renderer
+      ? [this.canvas.width, this.canvas.height]
+      : [this.gl.drawingBufferWidth, this.gl.drawingBufferHeight];
+  }
+
+  private get isCanvasElement(): boolean {
+    return typeof HTMLCanvasElement !== 'undefined' && this.canvas instanceof HTMLCanvasElement;
+  }
+
+  private isWebGL2(gl: WebGLRenderingContext | WebGL2RenderingContext): gl is WebGL2RenderingContext {
+    return isWebGL2Context(gl);
+  }
+
+  /** Looks up a uniform in the main program first, then in the passes. */
+  private findUniformInfo(name: string): UniformInfo | undefined {
+    const info = this.program?.uniformInfo.get(name);
+    if (info) return info;
+    for (const pass of this.passes) {
+      const passInfo = pass.programInfo.uniformInfo.get(name);
+      if (passInfo) return passInfo;
+    }
+    return undefined;
+  }
+
+  private handleContextLost = (e: Event): void => {
+    e.preventDefault(); // Signals that we intend to handle restoration
+    this.wasRunningBeforeLoss = this.isRunning;
+    this.stop();
+    this.isContextLost = true;
+    console.warn("[ShaderUp] Context Lost");
+    this.options.onContextLost?.();
+  };
+
+  private handleContextRestored = (): void => {
+    if (this.isDestroyed) return;
+    this.isContextLost = false;
+
+    // Every handle from the old context is invalid; drop them without deleting
+    this.forgetResources();
+    this.initResources(this.options);
+
+    // Replay the last uploaded data. Uniform values live on `this.uniforms` and survive as-is.
+    // Instance data is uploaded from `instances` as the instance buffer is recreated.
+    for (const [name, { source, options }] of this.textureSources) {
+      this.setTexture(name, source, options);
+    }
+
+    console.log("[ShaderUp] Context Restored");
+    this.options.onContextRestored?.();
+
+    if (this.wasRunningBeforeLoss) {
+      this.wasRunningBeforeLoss = false;
+      this.startLoop();
+    }
+  };
+
+  /** Whether `name` is a sampler2D of the main shader or a pass that textures can be uploaded to. */
+  private isTextureUniform(name: string): boolean {
+    const info = this.findUniformInfo(name);
+    return !!info && info.type === 'sampler2D' && info.pass === undefined;
+  }
+
+  private bindLiveSource(name: string, live: LiveTexture): void {
+    if (this.isDestroyed || !this.isTextureUniform(name)) {
+      if (!this.isDestroyed) console.warn(`[ShaderUp] Warning: "${name}" is not a registered sampler2D uniform.`);
+      live.dispose();
+      return;
+    }
+    this.unbindLiveTexture(name);
+    this.liveTextures.set(name, live);
+    this.invalidate();
+  }
+
+  /**
+   * Uploads the current frame of a live source. While its size stays the same, the texels are replaced
+   * in place; the first frame, a resize or another texture set in between go through `setTexture()`.
+   */
+  private uploadLiveTexture(name: string, live: LiveTexture): void {
+    const texture = this.textures.get(name);
+    const size = this.getSourceSize(live.source);
+    const previousSize = this.textureSizes.get(name);
+    const isSameTexture = texture && previousSize && this.textureSources.get(name)?.source === live.source;
+    if (this.isContextLost || !isSameTexture || previousSize[0] !== size[0] || previousSize[1] !== size[1]) {
+      this.setTexture(name, live.source, live.options);
+      return;
+    }
+    updateTexture(this.gl, texture, live.source, live.options, size, !!this.options.shadertoy);
+  }
+
+  /**
+   * The current value of an instance's attribute, checking the index and the name.
+   * @throws Error outside 'instanced' mode.
+   */
+  private readInstance(index: number, attribute: A): number | number[] {
+    if (!this.instances) {
+      throw new Error("[ShaderUp] Instance attributes can only be animated in 'instanced' renderMode.");
+    }
+    return this.instances.read(index, attribute);
+  }
+
+  private getInstanceAnimator(attribute: A): Animator<number> {
+    let animator = this.instanceAnimators.get(attribute);
+    if (!animator) {
+      animator = new Animator(() => this.invalidate());
+      this.instanceAnimators.set(attribute, animator);
+    }
+    return animator;
+  }
+
+  private getSourceSize(source: TexImageSource): [number, number] {
+    // Workers have neither image nor video elements
+    if (typeof HTMLImageElement !== 'undefined' && source instanceof HTMLImageElement) {
+      return [source.naturalWidth, source.naturalHeight];
+    }
+    if (typeof HTMLVideoElement !== 'undefined' && source instanceof HTMLVideoElement) {
+      return [source.videoWidth, source.videoHeight];
+    }
+    if (typeof VideoFrame !== 'undefined' && source instanceof VideoFrame) {
+      return [source.displayWidth, source.displayHeight];
+    }
+    return [(source as { width: number }).width, (source as { height: number }).height];
+  }
+
+  private reportShaderError(error: Error): void {
+    if (this.options.onShaderError) {
+      this.options.onShaderError(error);
+    } else {
+      console.error(error);
+    }
+  }
+
+  private rebuildGeometryResources(): void {
+    const gl = this.gl as WebGL2RenderingContext;
+    if (this.geometryVao) gl.deleteVertexArray(this.geometryVao);
+    for (const buffer of [this.indexBuffer, this.instanceBuffer, ...this.geometryBuffers]) {
+      if (buffer) gl.deleteBuffer(buffer);
+    }
+    this.geometryBuffers = [];
+    this.indexBuffer = null;
+    this.instanceBuffer = null;
+
+    this.initGeometryResources();
+  }
+
+  /**
+   * Clears all GPU handles without deleting them. Used when the context that owned them is gone.
+   */
+  private forgetResources(): void {
+    this.textures.clear();
+    this.passes = [];
+    this.program = null;
+    this.fullscreenBuffer = null;
+    this.geometryBuffers = [];
+    this.indexBuffer = null;
+    this.instanceBuffer = null;
+    this.instanceBufferBytes = 0;
+    this.fullscreenVao = null;
+    this.geometryVao = null;
+  }
+
+  private getDefaultVertexShader(fragmentSource: string, mode: RenderMode = this.renderMode): string {
+    if (mode === 'instanced') {
+      // This shader is a generic version of the one from the prototype.
+      // It expects instance attributes for position/size and passes them on.
+      // Users can replace it with a more specific one.
+      return `#version 300 es
+        in vec2 a_quadVertex; // (0,0) to (1,1)
+        
+        // Example instance attributes (users must define these in options)
+        in vec4 a_instanceRect;   // xy = pos, zw = size
+        
+        uniform vec2 u_resolution;
+        
+        out vec2 v_uv;
+
+        void main() {
+            // Create a screen-space position from the instance rect and quad vertex
+            vec2 finalPos = a_instanceRect.xy + (a_quadVertex * a_instanceRect.zw);
+        
+            // Convert from pixels to clip space
+            vec2 clipSpace = (finalPos / u_resolution) * 2.0 - 1.0;
+            clipSpace.y *= -1.0; // Flip Y for WebGL
+        
+            gl_Position = vec4(clipSpace, 0.0, 1.0);
+        
+            v_uv = a_quadVertex;
+        }
+      `;
+    }
     
-    if (!this.gl.getShaderParameter(shader, this.gl.COMPILE_STATUS)) {
-      const log = this.gl.getShaderInfoLog(shader);
-      this.gl.deleteShader(shader);
-      throw new Error(`[ShaderUp] Shader compilation failed:\n${log}`);
+    if (mode === 'mesh') {
+      // Draws the geometry as-is, e.g. a `createPlane()` in clip space
+      return `#version 300 es
+        in vec2 ${ShaderUp.ATTRIB_POSITION};
+        in vec2 a_uv;
+
+        out vec2 v_uv;
+
+        void main() {
+            gl_Position = vec4(${ShaderUp.ATTRIB_POSITION}, 0.0, 1.0);
+            v_uv = a_uv;
+        }
+      `;
     }
-    return shader;
+
+    // Default fullscreen shader. GLSL ES 3.00 fragment shaders need a matching vertex shader.
+    const isGLSL3 = /^\s*#version\s+300\s+es/.test(fragmentSource) || (!!this.options.shadertoy && this.isWebGL2(this.gl));
+    if (isGLSL3) {
+      return `#version 300 es
+      in vec2 ${ShaderUp.ATTRIB_POSITION};
+      void main() {
+        gl_Position = vec4(${ShaderUp.ATTRIB_POSITION}, 0.0, 1.0);
+      }
+    `;
+    }
+    return `
+      attribute vec2 ${ShaderUp.ATTRIB_POSITION};
+      void main() {
+        gl_Position = vec4(${ShaderUp.ATTRIB_POSITION}, 0.0, 1.0);
+      }
+    `;
   }
 
-  private createProgram(vs: WebGLShader, fs: WebGLShader): WebGLProgram {
-    const program = this.gl.createProgram();
+  /**
+   * Compiles both shaders and starts linking without waiting for the result,
+   * so drivers with KHR_parallel_shader_compile can work in the background.
+   */
+  private startProgram(vsSource: string, fsSource: string, defines?: ShaderDefines): PendingProgram {
+    const { gl } = this;
+    const vertexSource = this.preprocessShader('vertex', vsSource, defines);
+    const fragmentSource = this.preprocessShader('fragment', fsSource, defines);
+    const vertexShader = this.createShader(gl.VERTEX_SHADER, vertexSource.code);
+    const fragmentShader = this.createShader(gl.FRAGMENT_SHADER, fragmentSource.code);
+
+    const program = gl.createProgram();
     if (!program) throw new Error("[ShaderUp] Unable to create program object.");
 
-    this.gl.attachShader(program, vs);
-    this.gl.attachShader(program, fs);
-    this.gl.linkProgram(program);
-    
-    if (!this.gl.getProgramParameter(program, this.gl.LINK_STATUS)) {
-      const log = this.gl.getProgramInfoLog(program);
-      this.gl.deleteProgram(program);
-      throw new Error(`[ShaderUp] Program linking failed:\n${log}`);
+    gl.attachShader(program, vertexShader);
+    gl.attachShader(program, fragmentShader);
+    // Pin the fullscreen position attribute so every pass can share one vertex setup
+    gl.bindAttribLocation(program, 0, ShaderUp.ATTRIB_POSITION);
+    gl.linkProgram(program);
+
+    return { program, vertexShader, fragmentShader, vertexSource, fragmentSource };
+  }
+
+  /**
+   * Resolves includes and injects the global and per-pass defines.
+   * @throws ShaderCompileError if an include is missing.
+   */
+  private preprocessShader(stage: ShaderStage, source: string, defines?: ShaderDefines): PreprocessedShader {
+    try {
+      return preprocess(source, {
+        defines: { ...this.options.defines, ...defines },
+        chunks: this.options.chunks,
+        wrapper: stage === 'fragment' && this.options.shadertoy
+          ? { name: '<shadertoy>', ...getShadertoyWrapper(this.isWebGL2(this.gl)) }
+          : undefined,
+      });
+    } catch (error) {
+      if (!(error instanceof ShaderIncludeError)) throw error;
+      throw new ShaderCompileError(stage, [{
+        stage,
+        severity: 'error',
+        source: error.source,
+        line: error.line,
+        column: null,
+        message: `Unknown chunk "${error.include}".`,
+        sourceLine: `#include "${error.include}"`,
+      }]);
+    }
+  }
+
+  /**
+   * Checks the outcome of `startProgram`. Blocks if the driver is still compiling.
+   * @throws ShaderCompileError or ShaderLinkError with parsed diagnostics.
+   */
+  private finishProgram(pending: PendingProgram): WebGLProgram {
+    const { gl } = this;
+    const { program, vertexShader, fragmentShader } = pending;
+
+    try {
+      if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+        if (!gl.getShaderParameter(vertexShader, gl.COMPILE_STATUS)) {
+          const log = gl.getShaderInfoLog(vertexShader) ?? '';
+          const { code, lineMap } = pending.vertexSource;
+          throw new ShaderCompileError('vertex', parseShaderLog(log, 'vertex', code, lineMap), log);
+        }
+        if (!gl.getShaderParameter(fragmentShader, gl.COMPILE_STATUS)) {
+          const log = gl.getShaderInfoLog(fragmentShader) ?? '';
+          const { code, lineMap } = pending.fragmentSource;
+          throw new ShaderCompileError('fragment', parseShaderLog(log, 'fragment', code, lineMap), log);
+        }
+        throw new ShaderLinkError(gl.getProgramInfoLog(program) ?? '');
+      }
+    } catch (error) {
+      gl.deleteProgram(program);
+      throw error;
+    } finally {
+      // Clean up individual shaders as they are now linked into the program
+      gl.deleteShader(vertexShader);
+      gl.deleteShader(fragmentShader);
     }
+
     return program;
   }
 
-  private handleResize(callback?: (w: number, h: number) => void): void {
-    const displayWidth = this.canvas.clientWidth;
-    const displayHeight = this.canvas.clientHeight;
+  /**
+   * Like `finishProgram`, but waits for KHR_parallel_shader_compile (when available)
+   * across animation frames instead of stalling the render loop.
+   */
+  private async finishProgramInBackground(pending: PendingProgram): Promise<WebGLProgram> {
+    const { gl } = this;
+    const ext = gl.getExtension('KHR_parallel_shader_compile');
+
+    if (ext) {
+      while (!gl.getProgramParameter(pending.program, ext.COMPLETION_STATUS_KHR)) {
+        await new Promise(resolve => requestAnimationFrame(resolve));
+        if (this.isDestroyed || this.isContextLost) {
+          gl.deleteShader(pending.vertexShader);
+          gl.deleteShader(pending.fragmentShader);
+          gl.deleteProgram(pending.program);
+          throw new Error("[ShaderUp] Shader compilation was interrupted.");
+        }
+      }
+    }
+
+    return this.finishProgram(pending);
+  }
 
-    if (this.canvas.width !== displayWidth || this.canvas.height !== displayHeight) {
-      this.canvas.width = displayWidth;
-      this.canvas.height = displayHeight;
-      this.gl.viewport(0, 0, this.gl.drawingBufferWidth, this.gl.drawingBufferHeight);
+  private createShader(type: number, source: string): WebGLShader {
+    const shader = this.gl.createShader(type);
+    if (!shader) throw new Error("[ShaderUp] Unable to create shader object.");
+    
+    this.gl.shaderSource(shader, source);
+    this.gl.compileShader(shader);
+    return shader;
+  }
+
+  private handleResize(callback?: (w: number, h: number) => void, force = false): void {
+    const [cssWidth, cssHeight] = this.isCanvasElement
+      ? [(this.canvas as HTMLCanvasElement).clientWidth, (this.canvas as HTMLCanvasElement).clientHeight]
+      : this.canvasSize ?? [];
+    // An OffscreenCanvas keeps its own size until `setCanvasSize()` is called
+    if (cssWidth === undefined || cssHeight === undefined) return;
+
+    const ratio = this.pixelRatio;
+    const displayWidth = Math.round(cssWidth * ratio);
+    const displayHeight = Math.round(cssHeight * ratio);
+
+    // Exports own the canvas size until they finish
+    if (this.isExporting) return;
+
+    if (force || this.canvas.width !== displayWidth || this.canvas.height !== displayHeight) {
+      this.setDrawingBufferSize(displayWidth, displayHeight);
       
       if (callback) callback(displayWidth, displayHeight);
+      // Resizing clears the canvas
+      this.invalidate();
+    }
+  }
+
+  /**
+   * Re-arms the media query that detects `devicePixelRatio` changes (zoom, moving between screens).
+   * Only needed while the pixel ratio follows the device.
+   */
+  private watchPixelRatio(): void {
+    this.pixelRatioQuery?.removeEventListener('change', this.handlePixelRatioChange);
+    this.pixelRatioQuery = null;
+
+    const { pixelRatio } = this.options;
+    if ((pixelRatio !== undefined && pixelRatio !== 'auto') || typeof matchMedia === 'undefined') return;
+
+    this.pixelRatioQuery = matchMedia(`(resolution: ${window.devicePixelRatio}dppx)`);
+    this.pixelRatioQuery.addEventListener('change', this.handlePixelRatioChange);
+  }
+
+  private handlePixelRatioChange = (): void => {
+    if (this.isDestroyed) return;
+    // The query only matches the old ratio, so a new one is needed for the next change
+    this.watchPixelRatio();
+    if (!this.isContextLost) this.handleResize(this.options.onResize, true);
+  };
+
+  /**
+   * Resizes the canvas backing store, the viewport and all pass targets.
+   */
+  private setDrawingBufferSize(width: number, height: number): void {
+    this.canvas.width = width;
+    this.canvas.height = height;
+    const [outputWidth, outputHeight] = this.outputSize;
+    // A renderer sets the viewport per view as it draws
+    if (!this.renderer) this.gl.viewport(0, 0, outputWidth, outputHeight);
+
+    for (const pass of this.passes) {
+      const scale = pass.options.scale ?? 1;
+      pass.target.resize(
+        Math.max(1, Math.floor(outputWidth * scale)),
+        Math.max(1, Math.floor(outputHeight * scale))
+      );
     }
   }
 
   private render(time: number): void {
-    if (this.isDestroyed || !this.program) return;
+    if (this.isDestroyed || !this.program) {
+      this.animationFrameId = null;
+      return;
+    }
+
+    const elapsed = this.lastFrameTimestamp === null ? null : time - this.lastFrameTimestamp;
+    if (this.options.fps && elapsed !== null) {
+      const interval = 1000 / this.options.fps;
+      // Skip display frames until the interval has passed (with 1ms of tolerance for rAF jitter)
+      if (elapsed < interval - 1) {
+        this.animationFrameId = this.requestFrame();
+        return;
+      }
+      // Carry the remainder over, so e.g. 60fps on a 144Hz display does not drift down to 48fps
+      this.lastFrameTimestamp = time - (elapsed % interval);
+    } else {
+      this.lastFrameTimestamp = time;
+    }
 
+    // Frame times only reflect rendering cost while drawing continuously
+    if (this.adaptiveResolution && elapsed !== null && (this.options.frameloop ?? 'always') === 'always') {
+      const scale = this.adaptiveResolution.update(elapsed, time);
+      if (scale !== null) this.renderScale = scale;
+    }
+
+    this.clock.tick(time);
+    this.draw(this.clock);
+
+    // Changes made while drawing (e.g. in `onBeforeRender`) are already on screen.
+    // `animationFrameId` stays set until here so they don't schedule another frame.
+    this.needsRedraw = false;
+    this.animationFrameId = null;
+    this.scheduleFrame();
+  }
+
+  /**
+   * Starts the rendering loop, keeping the playback time. Used to resume after exports and context restores.
+   */
+  private startLoop(): void {
+    if (this.isContextLost) {
+      // Defer until the context is back
+      this.wasRunningBeforeLoss = true;
+      return;
+    }
+    if (this.isRunning || this.isDestroyed) return;
+
+    this.isRunning = true;
+    this.resetFrameTiming();
+    // Always draw the first frame, also in 'demand' mode
+    this.needsRedraw = true;
+    this.scheduleFrame();
+  }
+
+  /**
+   * Requests the next animation frame if the loop is running, visible, and has something to draw.
+   */
+  private scheduleFrame(): void {
+    if (this.animationFrameId !== null || !this.isRunning || this.isDestroyed || this.isContextLost) return;
+    if (!this.isIntersecting || !this.isDocumentVisible) return;
+
+    const frameloop = this.options.frameloop ?? 'always';
+    if (frameloop === 'never' || (frameloop === 'demand' && !this.needsRedraw)) return;
+
+    this.animationFrameId = this.requestFrame();
+  }
+
+  private cancelFrame(): void {
+    if (this.animationFrameId !== null) {
+      if (this.renderer) {
+        this.renderer.cancelFrame(this.animationFrameId);
+      } else {
+        cancelAnimationFrame(this.animationFrameId);
+      }
+      this.animationFrameId = null;
+    }
+  }
+
+  /** Requests an animation frame, from the renderer's shared loop if there is one. */
+  private requestFrame(): number {
+    return this.renderer ? this.renderer.requestFrame(this.boundRender) : requestAnimationFrame(this.boundRender);
+  }
+
+  /**
+   * Makes the next frame measure time from itself, so time spent stopped or suspended is skipped.
+   */
+  private resetFrameTiming(): void {
+    this.clock.resetOrigin();
+    this.lastFrameTimestamp = null;
+  }
+
+  private handleIntersection = (entries: IntersectionObserverEntry[]): void => {
+    const entry = entries[entries.length - 1];
+    if (entry) this.setVisibility(entry.isIntersecting, this.isDocumentVisible);
+  };
+
+  private handleVisibilityChange = (): void => {
+    this.setVisibility(this.isIntersecting, document.visibilityState !== 'hidden');
+  };
+
+  private setVisibility(isIntersecting: boolean, isDocumentVisible: boolean): void {
+    const wasVisible = this.isIntersecting && this.isDocumentVisible;
+    this.isIntersecting = isIntersecting;
+    this.isDocumentVisible = isDocumentVisible;
+    const isVisible = isIntersecting && isDocumentVisible;
+    if (isVisible === wasVisible) return;
+
+    if (isVisible) {
+      this.resetFrameTiming();
+      this.scheduleFrame();
+    } else {
+      this.cancelFrame();
+    }
+  }
+
+  /**
+   * Draws all passes and the main program once, with the given time values.
+   */
+  private draw(frameTime: FrameTime): void {
+    if (!this.program) return;
+
+    this.frameTime = { time: frameTime.time, delta: frameTime.delta, frame: frameTime.frame };
+    this.pointerInput?.update(this.uniformValues, performance.now());
+    for (const [name, value] of this.animator.update(frameTime.time, frameTime.delta)) {
+      this.uniformValues[name] = value;
+    }
+    for (const [attribute, animator] of this.instanceAnimators) {
+      for (const [index, value] of animator.update(frameTime.time, frameTime.delta)) {
+        // Instances removed by `setInstanceCount()` stop animating
+        if (index < this.numInstances) {
+          this.instances!.set(index, attribute, value);
+        } else {
+          animator.cancel(index);
+        }
+      }
+    }
+    for (const [name, live] of this.liveTextures) {
+      if (live.shouldUpload()) this.uploadLiveTexture(name, live);
+    }
     this.options.onBeforeRender?.();
 
     const gl = this.gl;
-    gl.useProgram(this.program);
+
+    // Offscreen passes, in declaration order
+    if (this.passes.length > 0) {
+      resetRenderState(gl);
+      for (const pass of this.passes) {
+        gl.bindFramebuffer(gl.FRAMEBUFFER, pass.target.writeFramebuffer);
+        gl.viewport(0, 0, pass.target.width, pass.target.height);
+        this.bindProgram(pass.programInfo, pass.target.width, pass.target.height, frameTime);
+        this.drawFullscreen();
+        pass.target.swap();
+      }
+      if (!this.renderer) {
+        gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+        gl.viewport(0, 0, gl.drawingBufferWidth, gl.drawingBufferHeight);
+      }
+    }
+
+    let [width, height] = this.outputSize;
+    if (this.renderer) {
+      this.outputRegion = this.renderer.beginView(this, [width, height]);
+      // An overlay region follows the overlay's pixel ratio, so the view draws at its size
+      [, , width, height] = this.outputRegion;
+      // In 'overlay' mode gl_FragCoord is relative to the overlay; `u_viewport.xy` is the view's offset
+      this.uniformValues.u_viewport = this.outputRegion;
+    }
+    applyRenderState(gl, this.renderState, this.renderMode === 'fullscreen');
+    this.bindProgram(this.program, width, height, frameTime);
+
+    // Draw the geometry
+    if (this.renderMode === 'fullscreen') {
+      this.drawFullscreen();
+    } else if (this.geometryDraw) {
+      const gl2 = gl as WebGL2RenderingContext;
+      const { mode, count, indexType } = this.geometryDraw;
+      if (this.renderMode === 'instanced') this.uploadDirtyInstances();
+      gl2.bindVertexArray(this.geometryVao);
+      if (this.renderMode === 'instanced') {
+        if (indexType === null) {
+          // Primitives, start offset, vertex count, instance count
+          gl2.drawArraysInstanced(mode, 0, count, this.numInstances);
+        } else {
+          gl2.drawElementsInstanced(mode, count, indexType, 0, this.numInstances);
+        }
+      } else if (indexType === null) {
+        gl2.drawArrays(mode, 0, count);
+      } else {
+        gl2.drawElements(mode, count, indexType, 0);
+      }
+      gl2.bindVertexArray(null);
+    }
+
+    if (this.renderer && this.outputRegion) this.renderer.endView(this, this.outputRegion);
+    this.shadertoyMouse?.endFrame();
+  }
+
+  /**
+   * Activates a program and uploads the standard uniforms, custom uniforms and textures.
+   */
+  private bindProgram(info: ProgramInfo, width: number, height: number, frameTime: FrameTime): void {
+    const gl = this.gl;
+    gl.useProgram(info.program);
 
     // Update Standard Uniforms
-    if (this.timeLocation) gl.uniform1f(this.timeLocation, time * 0.001);
-    if (this.resolutionLocation) gl.uniform2f(this.resolutionLocation, gl.drawingBufferWidth, gl.drawingBufferHeight);
+    if (info.timeLocation) gl.uniform1f(info.timeLocation, frameTime.time);
+    if (info.deltaTimeLocation) gl.uniform1f(info.deltaTimeLocation, frameTime.delta);
+    if (info.frameUniform) uploadUniform(gl, info.frameUniform.location, info.frameUniform.type, frameTime.frame);
+    if (info.resolutionLocation) gl.uniform2f(info.resolutionLocation, width, height);
+    if (this.options.shadertoy) this.updateShadertoyUniforms(info, width, height, frameTime);
 
     // Update Custom Uniforms
-    for (const [name, info] of this.uniformInfo) {
-      const value = this.uniforms[name];
+    for (const [name, uniform] of info.uniformInfo) {
+      if (isSamplerType(uniform.type)) {
+        this.bindSampler(name, uniform);
+        continue;
+      }
+
+      const value = this.resolveUniformValue(name, uniform);
       if (value === null || value === undefined) continue;
 
-      switch (info.type) {
-        case 'float': gl.uniform1f(info.location, value); break;
-        case 'vec2': gl.uniform2f(info.location, value[0], value[1]); break;
-        case 'vec3': gl.uniform3f(info.location, value[0], value[1], value[2]); break;
-        case 'vec4': gl.uniform4f(info.location, value[0], value[1], value[2], value[3]); break;
-        case 'int':   gl.uniform1i(info.location, value); break;
-        case 'sampler2D': 
-          if (info.textureUnit !== undefined) {
-            gl.uniform1i(info.location, info.textureUnit);
-          }
-          break;
-      }
+      uploadUniform(gl, uniform.location, uniform.type, value);
     }
+  }
 
-    // Draw the geometry
-    if (this.renderMode === 'fullscreen') {
+  /**
+   * Feeds the Shadertoy `i*` inputs through the shared `uniforms` object.
+   * Called per program, since `iResolution` and `iChannelResolution` differ between passes.
+   */
+  private updateShadertoyUniforms(info: ProgramInfo, width: number, height: number, frameTime: FrameTime): void {
+    const uniforms = this.uniformValues;
+    uniforms.iResolution = [width, height, 1];
+    uniforms.iTime = frameTime.time;
+    uniforms.iTimeDelta = frameTime.delta;
+    uniforms.iFrameRate = frameTime.delta > 0 ? 1 / frameTime.delta : 60;
+    uniforms.iFrame = frameTime.frame;
+    uniforms.iMouse = this.shadertoyMouse?.value ?? [0, 0, 0, 0];
+    uniforms.iDate = getShadertoyDate();
+    uniforms.iSampleRate = 44100;
+    uniforms.iChannelTime = [0, 0, 0, 0];
+
+    const channelResolution: number[] = [];
+    for (const channel of SHADERTOY_CHANNELS) {
+      const uniform = info.uniformInfo.get(channel);
+      const target = uniform?.pass !== undefined
+        ? this.passes.find(pass => pass.options.name === uniform.pass)?.target
+        : undefined;
+      const [w, h] = target ? [target.width, target.height] : this.textureSizes.get(channel) ?? [0, 0];
+      channelResolution.push(w, h, 1);
+    }
+    uniforms.iChannelResolution = channelResolution;
+  }
+
+  /**
+   * Reads a uniform's value, either by its full name (e.g. `uniforms['u_light.color']`)
+   * or by walking nested objects and arrays (e.g. `uniforms.u_light.color`).
+   */
+  private resolveUniformValue(name: string, uniform: UniformInfo): any {
+    if (name in this.uniformValues) return this.uniformValues[name];
+
+    let value: any = this.uniformValues;
+    for (const key of uniform.path) {
+      if (value === null || value === undefined) return undefined;
+      value = value[key];
+    }
+    return value;
+  }
+
+  /**
+   * Binds the texture(s) for a sampler uniform. Sources, in order of precedence:
+   * a render pass output, a texture uploaded with `setTexture`, or a `WebGLTexture`
+   * (or array of them) assigned to `uniforms`.
+   */
+  private bindSampler(name: string, uniform: UniformInfo): void {
+    const gl = this.gl;
+    if (uniform.textureUnit === undefined || !isSamplerType(uniform.type)) return;
+    const target = getSamplerTarget(uniform.type);
+
+    let textures: (WebGLTexture | null | undefined)[];
+    if (uniform.pass !== undefined) {
+      textures = [this.passes.find(pass => pass.options.name === uniform.pass)?.target.readTexture];
+    } else if (this.textures.has(name)) {
+      textures = [this.textures.get(name)];
+    } else {
+      const value = this.resolveUniformValue(name, uniform);
+      textures = Array.isArray(value) ? value : [value];
+    }
+
+    for (let i = 0; i < uniform.size; i++) {
+      gl.activeTexture(gl.TEXTURE0 + uniform.textureUnit + i);
+      gl.bindTexture(target, textures[i] ?? null);
+    }
+
+    if (uniform.size === 1) {
+      gl.uniform1i(uniform.location, uniform.textureUnit);
+    } else {
+      gl.uniform1iv(uniform.location, Array.from({ length: uniform.size }, (_, i) => uniform.textureUnit! + i));
+    }
+  }
+
+  /**
+   * Makes sure the instance buffer holds at least `bytes`, preserving the data in `instances`.
+   * Grows geometrically, so lists that grow one item at a time rarely reallocate.
+   */
+  private reserveInstanceBuffer(bytes: number): void {
+    if (bytes <= this.instanceBufferBytes || !this.instanceBuffer) return;
+    const gl = this.gl;
+
+    const size = Math.max(bytes, this.instanceBufferBytes * 2);
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.instanceBuffer);
+    gl.bufferData(gl.ARRAY_BUFFER, size, gl.DYNAMIC_DRAW);
+    this.instanceBufferBytes = size;
+
+    // Reallocation discards the contents
+    if (this.instances && this.instances.buffer.byteLength > 0) {
+      gl.bufferSubData(gl.ARRAY_BUFFER, 0, this.instances.buffer);
+    }
+  }
+
+  /** Uploads only the instances written through `instances` since the last frame. */
+  private uploadDirtyInstances(): void {
+    const range = this.instances?.dirtyRange;
+    if (!range || !this.instances || !this.instanceLayout) return;
+    const gl = this.gl;
+
+    const { stride } = this.instanceLayout;
+    const [start, end] = range;
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.instanceBuffer);
+    gl.bufferSubData(gl.ARRAY_BUFFER, start * stride, new Uint8Array(this.instances.buffer, start * stride, (end - start) * stride));
+    this.instances.clearDirty();
+  }
+
+  private drawFullscreen(): void {
+    const gl = this.gl;
+    if (this.isWebGL2(gl)) {
+      gl.bindVertexArray(this.fullscreenVao);
       gl.drawArrays(gl.TRIANGLES, 0, 3);
+      gl.bindVertexArray(null);
     } else {
-      const gl2 = gl as WebGL2RenderingContext;
-      // Primitives, start offset, vertex count, instance count
-      gl2.drawArraysInstanced(gl.TRIANGLES, 0, 6, this.numInstances);
+      // Without vertex arrays the pointer is global state, which other views of a renderer change
+      if (this.renderer) {
+        gl.bindBuffer(gl.ARRAY_BUFFER, this.fullscreenBuffer);
+        gl.vertexAttribPointer(0, 2, gl.FLOAT, false, 0, 0);
+      }
+      gl.drawArrays(gl.TRIANGLES, 0, 3);
     }
+  }
 
-    this.animationFrameId = requestAnimationFrame(this.boundRender);
+  /**
+   * Renders on a worker thread, keeping the page's main thread free. The canvas is transferred
+   * to `options.worker`, whose script imports 'shaderup/worker', and the returned proxy drives it.
+   * @example
+   * const worker = new Worker(new URL('./shader.worker.js', import.meta.url), { type: 'module' });
+   * const shader = ShaderUp.inWorker(canvas, { worker, fragmentShader });
+   * shader.start();
+   * shader.uniforms.u_color = [1, 0, 0];
+   */
+  public static inWorker(canvas: HTMLCanvasElement, options: ShaderUpProxyOptions): ShaderUpProxy {
+    return new ShaderUpProxy(canvas, options);
   }
 
   /**
@@ -557,56 +2288,166 @@ export class ShaderUp {
    * @param options The configuration for the element-based ShaderUp instance.
    * @returns A fully configured ShaderUp instance.
    */
-  public static fromElements(options: ShaderUpElementsOptions): ShaderUp {
-    const elements = Array.from(options.elements);
-    const numInstances = elements.length;
-
+  public static fromElements<A extends string = never>(options: ShaderUpElementsOptions<A>): ShaderUp<A | 'a_instanceRect'> {
     // Automatically add the 'a_instanceRect' attribute.
-    const allAttributes: { [name: string]: AttributeOptions } = {
+    const allAttributes = {
       'a_instanceRect': { size: 4, instanced: true },
       ...options.attributes
-    };
-
-    // Calculate the total stride (in floats) for the interleaved buffer.
-    let strideInFloats = 0;
-    for (const name in allAttributes) {
-      strideInFloats += allAttributes[name].size;
+    } as { [name in A | 'a_instanceRect']: AttributeOptions };
+
+    // The stride is a multiple of 4 bytes, since the float rect comes first.
+    const strideInFloats = createInstanceLayout(allAttributes).stride / 4;
+
+    // Attributes filled from CSS custom properties and data attributes, and from pointer state
+    const bindings: SourceBinding[] = [];
+    const inputBindings: InputBinding[] = [];
+    const defaultSmoothing = typeof options.input === 'object' ? options.input.smoothing ?? 0 : 0;
+    // Per attribute, animates each element towards its source value
+    const transitions = new Map<string, { transition: Transition; animator: Animator<HTMLElement> }>();
+    for (const [name, attribute] of Object.entries<AttributeOptions>(allAttributes)) {
+      const { source, size, transition } = attribute;
+      if (source === undefined) continue;
+      if (source.startsWith('input:')) {
+        const smoothing = transition ? 0 : attribute.smoothing ?? defaultSmoothing;
+        inputBindings.push({ name, source: source as InputSource, size, smoothing });
+      } else {
+        bindings.push({ name, source: source as ElementSource, size });
+      }
+      if (transition) {
+        transitions.set(name, { transition, animator: new Animator(() => shader.invalidate()) });
+      }
     }
 
-    const instanceData = new Float32Array(numInstances * strideInFloats);
+    // Float view over the instance buffer, for the rects and `onUpdate`
+    let instanceData: Float32Array | null = null;
 
     // This function will be called on every frame by the ShaderUp instance.
     const updateInstanceData = () => {
-      const dpr = window.devicePixelRatio;
-      
-      for (let i = 0; i < numInstances; i++) {
-        const rect = elements[i].getBoundingClientRect();
-        const ptr = i * strideInFloats;
-        
-        // Automatically populate the 'a_instanceRect' data.
-        instanceData[ptr] = rect.left * dpr;
-        instanceData[ptr+1] = rect.top * dpr;
-        instanceData[ptr+2] = rect.width * dpr;
-        instanceData[ptr+3] = rect.height * dpr;
+      const layoutChanged = tracker.update();
+      const elements = tracker.elements;
+      if (shader.instanceCount !== elements.length) shader.setInstanceCount(elements.length);
+
+      const instances = shader.instances!;
+      if (instanceData?.buffer !== instances.buffer) {
+        instanceData = new Float32Array(instances.buffer);
+      }
+
+      // Automatically populate the 'a_instanceRect' data, from cached layout.
+      if (layoutChanged) {
+        for (let i = 0; i < elements.length; i++) {
+          tracker.writeRect(elements[i], instanceData, i * strideInFloats);
+        }
+      }
+
+      // Source values go straight into the instance, or to the attribute's transition
+      const apply = (i: number, name: string, value: number[]) => {
+        const animated = transitions.get(name);
+        if (animated) {
+          animated.animator.transitionTo(elements[i], value, animated.transition);
+        } else {
+          instances.set(i, name as A | 'a_instanceRect', value);
+        }
+      };
+
+      // Declarative sources. Instances move when the element list changes, so then every one is rewritten.
+      if (sources) {
+        const changed = sources.update(elements, options.measure === 'everyFrame');
+        for (let i = 0; i < elements.length; i++) {
+          if (!layoutChanged && !changed.has(elements[i])) continue;
+          for (const { name } of bindings) {
+            const value = sources.get(elements[i], name);
+            if (value) apply(i, name, value);
+          }
+        }
+      }
+
+      // Hover, press, focus and pointer state, eased every frame
+      if (input) {
+        const changed = input.update(elements, el => tracker.getClientRect(el), performance.now());
+        for (let i = 0; i < elements.length; i++) {
+          if (!layoutChanged && !changed.has(elements[i])) continue;
+          for (const { name } of inputBindings) {
+            const value = input.get(elements[i], name);
+            if (value) apply(i, name, value);
+          }
+        }
+      }
+
+      // Transitions run on the playback clock, like `animate()`
+      if (transitions.size > 0) {
+        const indices = new Map(elements.map((el, i) => [el, i]));
+        for (const [name, { animator }] of transitions) {
+          if (layoutChanged) {
+            animator.retain(new Set(elements));
+            elements.forEach((el, i) => {
+              const value = animator.get(el);
+              if (value) instances.set(i, name as A | 'a_instanceRect', value);
+            });
+          }
+          for (const [el, value] of animator.update(shader.frameTime.time, shader.frameTime.delta)) {
+            const i = indices.get(el);
+            if (i !== undefined) instances.set(i, name as A | 'a_instanceRect', value);
+          }
+        }
       }
       
       // Call the user's update function to populate custom data.
       if (options.onUpdate) {
-        options.onUpdate(instanceData, elements, strideInFloats);
+        options.onUpdate(instanceData, elements, strideInFloats, instances);
       }
       
-      // The shader instance will be available via closure.
-      shader.setData(instanceData);
+      // Uploaded right after this hook, before the draw
+      if (layoutChanged || options.onUpdate) instances.markDirty();
     };
 
-    const shader = new ShaderUp({
+    // Instances are added once the tracker has measured the elements
+    const shader = new ShaderUp<A | 'a_instanceRect'>({
       ...options,
       renderMode: 'instanced',
-      numInstances,
+      numInstances: 0,
       attributes: allAttributes,
       onBeforeRender: updateInstanceData, // Hook into the render loop.
     });
 
+    let tracker: ElementTracker;
+    let sources: ElementSources | null = null;
+    let input: ElementInput | null = null;
+    try {
+      // `ShaderUpElementsOptions` only accepts canvas elements
+      tracker = new ElementTracker(shader.canvas as HTMLCanvasElement, {
+        elements: options.elements,
+        container: options.container,
+        selector: options.selector,
+        cull: options.cull ?? true,
+        measure: options.measure ?? 'onChange',
+      }, () => shader.invalidate());
+      shader.cleanups.push(() => tracker.dispose());
+
+      if (bindings.length > 0) {
+        const elementSources = new ElementSources(bindings, () => shader.invalidate());
+        shader.cleanups.push(() => elementSources.dispose());
+        sources = elementSources;
+      }
+
+      if (inputBindings.length > 0) {
+        const elementInput = new ElementInput(inputBindings, () => shader.invalidate());
+        shader.cleanups.push(() => elementInput.dispose());
+        input = elementInput;
+      }
+
+      shader.cleanups.push(() => transitions.forEach(({ animator }) => animator.dispose()));
+    } catch (error) {
+      shader.dispose();
+      throw error;
+    }
+
     return shader;
   }
 }
+
+/** Views any buffer source as bytes, without copying. */
+function toBytes(data: BufferSource): Uint8Array {
+  return ArrayBuffer.isView(data)
+    ? new Uint8Array(data.buffer, data.byteOffset, data.byteLength)
+    : new Uint8Array(data);
+}
@@ -0,0 +1,302 @@
+import { isDataTexture, type DataTexture, type TextureOptions } from './textures';
+import type { FromWorkerMessage, ToWorkerMessage, WorkerCalls, WorkerMethod, WorkerShaderOptions } from './workerMessages';
+
+export type { WorkerShaderOptions } from './workerMessages';
+
+export interface ShaderUpProxyOptions extends WorkerShaderOptions {
+  /** The worker to render in. Its script imports 'shaderup/worker'. */
+  worker: Worker;
+  /** Called when the canvas is resized, with the drawing buffer size in pixels. */
+  onResize?: (width: number, height: number) => void;
+  /** Called when the worker's WebGL context is lost. */
+  onContextLost?: () => void;
+  /** Called once the worker has rebuilt its resources after a context restore. */
+  onContextRestored?: () => void;
+  /** Called with shader errors from `setShaders()` and friends. Defaults to `onError`. */
+  onShaderError?: (error: Error) => void;
+  /** Called with other errors raised in the worker, e.g. when WebGL is not supported. Defaults to logging them. */
+  onError?: (error: Error) => void;
+}
+
+/**
+ * Drives a `ShaderUp` instance that renders on a worker thread, created with `ShaderUp.inWorker()`.
+ * Keeps the worker's canvas size and pixel ratio in sync with the page, and batches
+ * `uniforms` assignments into one message per task.
+ */
+export class ShaderUpProxy {
+  public readonly canvas: HTMLCanvasElement;
+  public readonly worker: Worker;
+  /** Assign values as with `ShaderUp.uniforms`. Only assignments are sent, so replace arrays rather than mutating them. */
+  public readonly uniforms: { [name: string]: any };
+
+  private readonly options: ShaderUpProxyOptions;
+  private readonly uniformValues: { [name: string]: any } = {};
+  private pendingUniforms: { [name: string]: any } | null = null;
+  // Calls waiting for the worker's answer, by id
+  private pendingResults: Map<number, { resolve: (value: any) => void; reject: (error: Error) => void }> = new Map();
+  private nextCallId = 0;
+  private resizeObserver: ResizeObserver;
+  private pixelRatioQuery: MediaQueryList | null = null;
+  private isDestroyed = false;
+
+  /**
+   * @throws Error if the canvas was already transferred or has a context.
+   */
+  constructor(canvas: HTMLCanvasElement, options: ShaderUpProxyOptions) {
+    this.canvas = canvas;
+    this.worker = options.worker;
+    this.options = options;
+    this.uniforms = new Proxy(this.uniformValues, {
+      set: (target, name: string, value) => {
+        target[name] = value;
+        if (!this.pendingUniforms) {
+          this.pendingUniforms = {};
+          queueMicrotask(this.flushUniforms);
+        }
+        this.pendingUniforms[name] = value;
+        return true;
+      },
+    });
+
+    this.worker.addEventListener('message', this.handleMessage);
+    this.worker.addEventListener('error', this.handleWorkerError);
+
+    // Callbacks stay on this thread; the worker reports back with messages
+    const { worker, onResize, onContextLost, onContextRestored, onShaderError, onError, ...shaderOptions } = options;
+    const offscreen = canvas.transferControlToOffscreen();
+    this.post({
+      type: 'init',
+      canvas: offscreen,
+      options: shaderOptions,
+      size: [canvas.clientWidth, canvas.clientHeight],
+      devicePixelRatio: window.devicePixelRatio || 1,
+    }, [offscreen]);
+
+    this.resizeObserver = new ResizeObserver(this.handleResize);
+    this.resizeObserver.observe(canvas);
+    this.watchPixelRatio();
+  }
+
+  public start(): void {
+    this.call('start');
+  }
+
+  public stop(): void {
+    this.call('stop');
+  }
+
+  public pause(): void {
+    this.call('pause');
+  }
+
+  public resume(): void {
+    this.call('resume');
+  }
+
+  public seek(time: number): void {
+    this.call('seek', time);
+  }
+
+  public invalidate(): void {
+    this.call('invalidate');
+  }
+
+  /**
+   * Draws a single frame in the worker, e.g. with `frameloop: 'never'`. See `ShaderUp.renderFrame()`.
+   */
+  public renderFrame(time?: number): void {
+    this.call('renderFrame', time);
+  }
+
+  /**
+   * Hot-swaps shaders in the worker. Build errors go to `onShaderError`. See `ShaderUp.setShaders()`.
+   * @returns Resolves with whether the new program is in use.
+   */
+  public setShaders(shaders: { fragmentShader?: string; vertexShader?: string }, pass?: string): Promise<boolean> {
+    return this.request('setShaders', shaders, pass);
+  }
+
+  /**
+   * For 'instanced' mode, sets the data for all instances. The data is copied to the worker. See `ShaderUp.setData()`.
+   */
+  public setData(data: BufferSource): void {
+    this.call('setData', data);
+  }
+
+  /**
+   * For 'instanced' mode, replaces the data of consecutive instances. See `ShaderUp.updateData()`.
+   */
+  public updateData(offset: number, data: BufferSource): void {
+    this.call('updateData', offset, data);
+  }
+
+  /**
+   * For 'instanced' mode, changes the number of instances drawn. See `ShaderUp.setInstanceCount()`.
+   */
+  public setInstanceCount(count: number): void {
+    this.call('setInstanceCount', count);
+  }
+
+  /**
+   * Sends a texture to the worker. Images, videos and canvases are copied into an
+   * `ImageBitmap` and transferred; data textures are copied.
+   * @returns Resolves once the texture has been sent.
+   */
+  public async setTexture(name: string, image: TexImageSource | DataTexture, options: TextureOptions = {}): Promise<void> {
+    if (isDataTexture(image)) {
+      this.post({ type: 'texture', name, source: image, options });
+      return;
+    }
+    await this.sendBitmap(name, image, options);
+  }
+
+  /**
+   * Fetches an image on the page's thread and sends it to the worker, like `setTexture`.
+   * @throws Error (as a rejection) if the image cannot be loaded.
+   */
+  public async loadTexture(name: string, url: string, options: TextureOptions = {}): Promise<void> {
+    let blob: Blob;
+    try {
+      const response = await fetch(url);
+      if (!response.ok) throw new Error(response.statusText);
+      blob = await response.blob();
+    } catch {
+      throw new Error(`[ShaderUp] Failed to load texture "${name}" from ${url}.`);
+    }
+    await this.sendBitmap(name, blob, options);
+  }
+
+  /**
+   * Disposes of the worker's instance and stops following the canvas.
+   * The worker keeps running; terminate it if nothing else uses it.
+   */
+  public dispose(): void {
+    if (this.isDestroyed) return;
+    this.post({ type: 'dispose' });
+    this.isDestroyed = true;
+
+    this.resizeObserver.disconnect();
+    this.pixelRatioQuery?.removeEventListener('change', this.handlePixelRatioChange);
+    this.pixelRatioQuery = null;
+    this.worker.removeEventListener('message', this.handleMessage);
+    this.worker.removeEventListener('error', this.handleWorkerError);
+
+    const error = new Error('[ShaderUp] The worker instance was disposed.');
+    this.pendingResults.forEach(({ reject }) => reject(error));
+    this.pendingResults.clear();
+  }
+
+  private async sendBitmap(name: string, source: ImageBitmapSource, options: TextureOptions): Promise<void> {
+    // ImageBitmap uploads ignore the WebGL unpack flags, so flipping and premultiplying happen here
+    const flipY = options.flipY ?? !!this.options.shadertoy;
+    const bitmap = await createImageBitmap(source, {
+      imageOrientation: flipY ? 'flipY' : 'from-image',
+      premultiplyAlpha: options.premultiplyAlpha ? 'premultiply' : 'none',
+      colorSpaceConversion: options.colorSpace === 'none' ? 'none' : 'default',
+    });
+    if (this.isDestroyed) {
+      bitmap.close();
+      return;
+    }
+    this.post({ type: 'texture', name, source: bitmap, options: { ...options, flipY: false, premultiplyAlpha: false } }, [bitmap]);
+  }
+
+  private call<M extends WorkerMethod>(method: M, ...args: WorkerCalls[M]): void {
+    this.post({ type: 'call', method, args } as ToWorkerMessage);
+  }
+
+  /** Calls a method and resolves with its result once the worker answers. */
+  private request<M extends WorkerMethod>(method: M, ...args: WorkerCalls[M]): Promise<any> {
+    if (this.isDestroyed) return Promise.reject(new Error('[ShaderUp] The worker instance was disposed.'));
+    const id = this.nextCallId++;
+    return new Promise((resolve, reject) => {
+      this.pendingResults.set(id, { resolve, reject });
+      this.post({ type: 'call', method, args, id } as ToWorkerMessage);
+    });
+  }
+
+  /** Sends a message after any pending uniforms, so the worker sees them in order. */
+  private post(message: ToWorkerMessage, transfer: Transferable[] = []): void {
+    if (this.isDestroyed) return;
+    if (message.type !== 'uniforms') this.flushUniforms();
+    this.worker.postMessage(message, transfer);
+  }
+
+  private flushUniforms = (): void => {
+    const values = this.pendingUniforms;
+    if (!values) return;
+    this.pendingUniforms = null;
+    this.post({ type: 'uniforms', values });
+  };
+
+  /** Re-arms the media query that detects `devicePixelRatio` changes, as `ShaderUp` does. */
+  private watchPixelRatio(): void {
+    this.pixelRatioQuery?.removeEventListener('change', this.handlePixelRatioChange);
+    this.pixelRatioQuery = matchMedia(`(resolution: ${window.devicePixelRatio}dppx)`);
+    this.pixelRatioQuery.addEventListener('change', this.handlePixelRatioChange);
+  }
+
+  private handlePixelRatioChange = (): void => {
+    if (this.isDestroyed) return;
+    this.watchPixelRatio();
+    this.handleResize();
+  };
+
+  private handleResize = (): void => {
+    this.post({
+      type: 'resize',
+      size: [this.canvas.clientWidth, this.canvas.clientHeight],
+      devicePixelRatio: window.devicePixelRatio || 1,
+    });
+  };
+
+  private handleMessage = (event: MessageEvent<FromWorkerMessage>): void => {
+    const message = event.data;
+    switch (message.type) {
+      case 'resize':
+        this.options.onResize?.(message.width, message.height);
+        break;
+      case 'contextlost':
+        this.options.onContextLost?.();
+        break;
+      case 'contextrestored':
+        this.options.onContextRestored?.();
+        break;
+      case 'result': {
+        const pending = this.pendingResults.get(message.id);
+        if (!pending) break;
+        this.pendingResults.delete(message.id);
+        if (message.error) {
+          const error = new Error(message.error.message);
+          error.name = message.error.name;
+          pending.reject(error);
+        } else {
+          pending.resolve(message.value);
+        }
+        break;
+      }
+      case 'error': {
+        const error = new Error(message.message);
+        error.name = message.name;
+        if (message.isShaderError && this.options.onShaderError) {
+          this.options.onShaderError(error);
+        } else {
+          this.reportError(error);
+        }
+        break;
+      }
+    }
+  };
+
+  private handleWorkerError = (event: ErrorEvent): void => {
+    this.reportError(new Error(`[ShaderUp] Worker error: ${event.message}`));
+  };
+
+  private reportError(error: Error): void {
+    if (this.options.onError) {
+      this.options.onError(error);
+    } else {
+      console.error(error);
+    }
+  }
+}
@@ -0,0 +1,261 @@
+/**
+ * How views reach the page:
+ * - 'blit': each view draws in the hidden shared canvas and is copied into its own canvas with a 2D context
+ * - 'overlay': views draw straight into their region of one overlay canvas that covers the page
+ */
+export type RendererMode = 'blit' | 'overlay';
+
+export interface ShaderUpRendererOptions {
+  /** Defaults to 'blit'. */
+  mode?: RendererMode;
+  /**
+   * For 'overlay' mode, the canvas to draw into. Defaults to a new fixed canvas covering the
+   * viewport, above the page and transparent to pointer events.
+   */
+  canvas?: HTMLCanvasElement;
+  /** Drawing buffer pixels per CSS pixel of the overlay canvas. Defaults to `window.devicePixelRatio`. */
+  pixelRatio?: number;
+  /** WebGL context attributes, over the defaults `{ alpha: true, antialias: false }`. */
+  contextAttributes?: WebGLContextAttributes;
+}
+
+/** A region of the shared drawing buffer, in pixels with a bottom-left origin. */
+export type ViewRegion = [x: number, y: number, width: number, height: number];
+
+/** What the renderer needs from a view; implemented by `ShaderUp`. */
+export interface RendererView {
+  /** In 'overlay' mode, a canvas element. */
+  readonly canvas: HTMLCanvasElement | OffscreenCanvas;
+  invalidate(): void;
+}
+
+/**
+ * Shares one WebGL context and one animation frame loop between many `ShaderUp` views,
+ * so pages with more shader canvases than the browser's context limit keep working.
+ * @example
+ * const renderer = new ShaderUpRenderer();
+ * const tiles = canvases.map(canvas => new ShaderUp({ renderer, canvas, fragmentShader }));
+ */
+export class ShaderUpRenderer {
+  public readonly canvas: HTMLCanvasElement;
+  public readonly gl: WebGLRenderingContext | WebGL2RenderingContext;
+  public readonly mode: RendererMode;
+
+  private readonly ownsCanvas: boolean;
+  private readonly pixelRatio: number | undefined;
+  private views: Set<RendererView> = new Set();
+  // In 'blit' mode, the drawing buffer size of each view's last frame
+  private viewSizes: Map<RendererView, [number, number]> = new Map();
+  private contexts2d: WeakMap<
+    HTMLCanvasElement | OffscreenCanvas,
+    CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D
+  > = new WeakMap();
+  private callbacks: Map<number, FrameRequestCallback> = new Map();
+  private nextCallbackId = 1;
+  private animationFrameId: number | null = null;
+  private overlayRect: DOMRect | null = null;
+  private needsClear = true;
+  private isDestroyed = false;
+
+  /**
+   * @throws Error if WebGL is not supported.
+   */
+  constructor(options: ShaderUpRendererOptions = {}) {
+    this.mode = options.mode ?? 'blit';
+    this.pixelRatio = options.pixelRatio;
+    this.ownsCanvas = !options.canvas;
+    this.canvas = options.canvas ?? document.createElement('canvas');
+
+    if (this.mode === 'overlay' && this.ownsCanvas) {
+      Object.assign(this.canvas.style, {
+        position: 'fixed', inset: '0', width: '100%', height: '100%', pointerEvents: 'none', zIndex: '1000',
+      });
+      document.body.appendChild(this.canvas);
+    }
+
+    // Views only redraw their own region in 'overlay' mode, so the rest of the buffer has to survive
+    const contextAttributes: WebGLContextAttributes = {
+      alpha: true,
+      antialias: false,
+      ...options.contextAttributes,
+      preserveDrawingBuffer: this.mode === 'overlay' || !!options.contextAttributes?.preserveDrawingBuffer,
+    };
+    const gl = (this.canvas.getContext('webgl2', contextAttributes) as WebGL2RenderingContext | null)
+      ?? (this.canvas.getContext('webgl', contextAttributes) as WebGLRenderingContext | null);
+    if (!gl) throw new Error("[ShaderUp] WebGL not supported in this browser.");
+    this.gl = gl;
+
+    if (this.mode === 'overlay') {
+      window.addEventListener('scroll', this.handleLayoutChange, { capture: true, passive: true });
+      window.addEventListener('resize', this.handleLayoutChange);
+    }
+  }
+
+  /** Called by views as they are created. */
+  public addView(view: RendererView): void {
+    this.views.add(view);
+  }
+
+  /** Called by views as they are disposed. */
+  public removeView(view: RendererView): void {
+    this.views.delete(view);
+    if (this.viewSizes.delete(view)) this.fitBlitCanvas();
+    // Other views repaint over the area the removed one left behind
+    if (this.mode === 'overlay') this.handleLayoutChange();
+  }
+
+  /** Like `requestAnimationFrame`, but every view's callback runs in the same frame. */
+  public requestFrame(callback: FrameRequestCallback): number {
+    const id = this.nextCallbackId++;
+    this.callbacks.set(id, callback);
+    if (this.animationFrameId === null && !this.isDestroyed) {
+      this.animationFrameId = requestAnimationFrame(this.flush);
+    }
+    return id;
+  }
+
+  public cancelFrame(id: number): void {
+    this.callbacks.delete(id);
+    if (this.callbacks.size === 0 && this.animationFrameId !== null) {
+      cancelAnimationFrame(this.animationFrameId);
+      this.animationFrameId = null;
+    }
+  }
+
+  /**
+   * Points the default framebuffer at a view's region and clears it.
+   * @param size The view's drawing buffer size, used as is in 'blit' mode.
+   * @returns The region the view draws into. In 'overlay' mode, its size is the view's size on the overlay.
+   */
+  public beginView(view: RendererView, size: [number, number]): ViewRegion {
+    const gl = this.gl;
+    const [width, height] = size;
+    let region: ViewRegion;
+
+    if (this.mode === 'blit') {
+      // Sized to the largest view; each view draws in the bottom-left corner
+      const previous = this.viewSizes.get(view);
+      if (!previous || previous[0] !== width || previous[1] !== height) {
+        this.viewSizes.set(view, [width, height]);
+        this.fitBlitCanvas();
+      }
+      region = [0, 0, width, height];
+    } else {
+      // Measured once per frame, unless the view draws outside the shared loop
+      if (!this.overlayRect) this.resizeOverlay();
+      const overlayRect = this.overlayRect!;
+      const rect = (view.canvas as HTMLCanvasElement).getBoundingClientRect();
+      // Offset and size both use the overlay's scale, which can differ from the view's own pixel ratio
+      const scaleX = overlayRect.width > 0 ? this.canvas.width / overlayRect.width : 1;
+      const scaleY = overlayRect.height > 0 ? this.canvas.height / overlayRect.height : 1;
+      const left = Math.round((rect.left - overlayRect.left) * scaleX);
+      const right = Math.round((rect.right - overlayRect.left) * scaleX);
+      const bottom = Math.round(this.canvas.height - (rect.bottom - overlayRect.top) * scaleY);
+      const top = Math.round(this.canvas.height - (rect.top - overlayRect.top) * scaleY);
+      region = [left, bottom, right - left, top - bottom];
+    }
+
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+    gl.viewport(...region);
+    gl.enable(gl.SCISSOR_TEST);
+    gl.scissor(...region);
+    gl.clearColor(0, 0, 0, 0);
+    gl.clear(gl.COLOR_BUFFER_BIT);
+    return region;
+  }
+
+  /**
+   * Finishes a view's frame. In 'blit' mode, copies its region into the view's canvas.
+   */
+  public endView(view: RendererView, region: ViewRegion): void {
+    this.gl.disable(this.gl.SCISSOR_TEST);
+    if (this.mode !== 'blit') return;
+
+    const target = view.canvas;
+    let context = this.contexts2d.get(target);
+    if (!context) {
+      const created = target.getContext('2d');
+      if (!created) throw new Error("[ShaderUp] Views in 'blit' mode need a canvas with a 2D context.");
+      context = created;
+      this.contexts2d.set(target, context);
+    }
+
+    const [, , width, height] = region;
+    context.clearRect(0, 0, target.width, target.height);
+    // Canvas rows start at the top, so the bottom-left region starts at `height - region height`
+    context.drawImage(this.canvas, 0, this.canvas.height - height, width, height, 0, 0, target.width, target.height);
+  }
+
+  /**
+   * Stops the loop and releases the context. Dispose the views first.
+   */
+  public dispose(): void {
+    this.isDestroyed = true;
+    if (this.animationFrameId !== null) cancelAnimationFrame(this.animationFrameId);
+    this.animationFrameId = null;
+    this.callbacks.clear();
+    this.views.clear();
+    this.viewSizes.clear();
+
+    window.removeEventListener('scroll', this.handleLayoutChange, { capture: true });
+    window.removeEventListener('resize', this.handleLayoutChange);
+
+    this.gl.getExtension('WEBGL_lose_context')?.loseContext();
+    if (this.ownsCanvas) this.canvas.remove();
+  }
+
+  private flush = (time: number): void => {
+    this.animationFrameId = null;
+    const callbacks = [...this.callbacks.values()];
+    this.callbacks.clear();
+
+    if (this.mode === 'overlay') this.resizeOverlay();
+    if (this.needsClear && this.mode === 'overlay') {
+      this.needsClear = false;
+      const gl = this.gl;
+      gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+      gl.clearColor(0, 0, 0, 0);
+      gl.clear(gl.COLOR_BUFFER_BIT);
+    }
+
+    for (const callback of callbacks) callback(time);
+    this.overlayRect = null;
+  };
+
+  /**
+   * Sizes the 'blit' canvas to the largest view, so it shrinks again when that view is removed or resized.
+   * Resizing clears it, which is fine: each view draws and copies its region within `beginView` and `endView`.
+   */
+  private fitBlitCanvas(): void {
+    let width = 1;
+    let height = 1;
+    for (const [viewWidth, viewHeight] of this.viewSizes.values()) {
+      width = Math.max(width, viewWidth);
+      height = Math.max(height, viewHeight);
+    }
+    if (this.canvas.width !== width || this.canvas.height !== height) {
+      this.canvas.width = width;
+      this.canvas.height = height;
+    }
+  }
+
+  /** Matches the overlay's drawing buffer to its size on screen. */
+  private resizeOverlay(): void {
+    this.overlayRect = this.canvas.getBoundingClientRect();
+    const ratio = this.pixelRatio ?? window.devicePixelRatio ?? 1;
+    const width = Math.round(this.overlayRect.width * ratio);
+    const height = Math.round(this.overlayRect.height * ratio);
+    if (this.canvas.width !== width || this.canvas.height !== height) {
+      // Resizing clears the buffer, so every view has to draw again
+      this.canvas.width = width;
+      this.canvas.height = height;
+      if (this.views.size > 0) this.views.forEach(view => view.invalidate());
+    }
+  }
+
+  /** Views moved on the page, so the overlay is cleared and every view draws again. */
+  private handleLayoutChange = (): void => {
+    this.needsClear = true;
+    this.views.forEach(view => view.invalidate());
+  };
+}
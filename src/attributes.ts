@@ -0,0 +1,151 @@
+import type { Transition } from './Animator';
+
+export type AttributeType =
+  | 'FLOAT' | 'HALF_FLOAT'
+  | 'BYTE' | 'UNSIGNED_BYTE'
+  | 'SHORT' | 'UNSIGNED_SHORT'
+  | 'INT' | 'UNSIGNED_INT';
+
+/**
+ * Defines a single vertex attribute for a WebGL buffer.
+ */
+export interface AttributeOptions {
+  /** The size of the attribute (number of components, e.g., 3 for a vec3). */
+  size: 1 | 2 | 3 | 4;
+  /** The component type in the buffer. Defaults to 'FLOAT'. */
+  type?: AttributeType;
+  /**
+   * Maps integer components to [0, 1] (unsigned) or [-1, 1] (signed) floats,
+   * e.g. colors stored as 'UNSIGNED_BYTE'. Defaults to false.
+   */
+  normalized?: boolean;
+  /**
+   * Whether this attribute advances per instance. Defaults to true.
+   * Per-vertex attributes (`false`) read the record at the vertex index instead.
+   */
+  instanced?: boolean;
+  /** Number of instances that share each value. Overrides `instanced`. */
+  divisor?: number;
+  /**
+   * For `fromElements`, fills the attribute from each element and keeps it updated:
+   * - 'css:--name' reads a CSS custom property (transitions and animations included)
+   * - 'data:name' reads the `data-name` attribute
+   * - 'input:hover', 'input:press' and 'input:focus' are 1 while the element is hovered, pressed or focused
+   * - 'input:pointer' is the pointer position within the element, 0..1 from its top-left corner
+   *
+   * CSS and data values can be numbers, vectors ('1 0.5 0' or '1, 0.5, 0') or CSS colors (as RGBA in [0, 1]).
+   */
+  source?: AttributeSource;
+  /**
+   * For 'input:*' sources, seconds to ease towards a new value, e.g. 0.15 for a soft hover.
+   * Defaults to `input.smoothing`, or 0.
+   */
+  smoothing?: number;
+  /**
+   * For `fromElements` sources, eases each element towards new values with a tween
+   * (e.g. `{ duration: 0.3, easing: 'ease-out' }`) or a spring (e.g. `{ stiffness: 300, damping: 20 }`),
+   * on the playback clock. Replaces `smoothing`.
+   */
+  transition?: Transition;
+}
+
+export type InputSource = 'input:hover' | 'input:press' | 'input:focus' | 'input:pointer';
+
+export type AttributeSource = `css:--${string}` | `data:${string}` | InputSource;
+
+/** Where one attribute lives within an interleaved record. */
+export interface AttributeLayout {
+  name: string;
+  size: number;
+  type: AttributeType;
+  normalized: boolean;
+  divisor: number;
+  /** Byte offset within the record. */
+  offset: number;
+}
+
+/** The byte layout of an interleaved buffer, one record per instance. */
+export interface InstanceLayout {
+  attributes: AttributeLayout[];
+  /** Bytes per record. */
+  stride: number;
+}
+
+/** Bytes per component. */
+const COMPONENT_BYTES: { [type in AttributeType]: number } = {
+  FLOAT: 4, HALF_FLOAT: 2,
+  BYTE: 1, UNSIGNED_BYTE: 1,
+  SHORT: 2, UNSIGNED_SHORT: 2,
+  INT: 4, UNSIGNED_INT: 4,
+};
+
+/** GL enums of the integer types `getActiveAttrib` reports: int, ivec2-4, uint, uvec2-4. */
+const GL_INTEGER_ATTRIBUTE_TYPES = new Set([0x1404, 0x8B53, 0x8B54, 0x8B55, 0x1405, 0x8DC6, 0x8DC7, 0x8DC8]);
+
+// WebGL caps vertexAttribPointer strides
+const MAX_STRIDE = 255;
+
+/**
+ * Lays out attributes in declaration order. Each attribute is aligned to its component size
+ * and the stride to the largest one, as WebGL requires.
+ * @throws Error if a record exceeds WebGL's 255-byte stride limit.
+ */
+export function createInstanceLayout(attributes: { [name: string]: AttributeOptions }): InstanceLayout {
+  const layout: AttributeLayout[] = [];
+  let offset = 0;
+  let alignment = 1;
+
+  for (const [name, options] of Object.entries(attributes)) {
+    const type = options.type ?? 'FLOAT';
+    const bytes = COMPONENT_BYTES[type];
+    offset = alignTo(offset, bytes);
+    alignment = Math.max(alignment, bytes);
+
+    layout.push({
+      name,
+      size: options.size,
+      type,
+      normalized: options.normalized ?? false,
+      divisor: options.divisor ?? (options.instanced === false ? 0 : 1),
+      offset,
+    });
+    offset += options.size * bytes;
+  }
+
+  const stride = alignTo(offset, alignment);
+  if (stride > MAX_STRIDE) {
+    throw new Error(`[ShaderUp] Instance attributes take ${stride} bytes per instance; WebGL allows at most ${MAX_STRIDE}.`);
+  }
+  return { attributes: layout, stride };
+}
+
+/** Bytes per component of a buffer type. */
+export function getComponentBytes(type: AttributeType): number {
+  return COMPONENT_BYTES[type];
+}
+
+/**
+ * Whether a buffer type holds integers (and can feed `int`/`uint` shader inputs).
+ */
+export function isIntegerType(type: AttributeType): boolean {
+  return type !== 'FLOAT' && type !== 'HALF_FLOAT';
+}
+
+/**
+ * Names of the active attributes the shader declares as `int`, `uint` or their vectors.
+ * These need `vertexAttribIPointer`, since `vertexAttribPointer` always converts to float.
+ */
+export function reflectIntegerAttributes(gl: WebGL2RenderingContext, program: WebGLProgram): Set<string> {
+  const names = new Set<string>();
+  const count = gl.getProgramParameter(program, gl.ACTIVE_ATTRIBUTES) as number;
+
+  for (let i = 0; i < count; i++) {
+    const active = gl.getActiveAttrib(program, i);
+    if (active && GL_INTEGER_ATTRIBUTE_TYPES.has(active.type)) names.add(active.name);
+  }
+  return names;
+}
+
+function alignTo(value: number, alignment: number): number {
+  return Math.ceil(value / alignment) * alignment;
+}
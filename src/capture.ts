@@ -0,0 +1,135 @@
+export type ImageMimeType = 'image/png' | 'image/webp' | 'image/jpeg';
+
+export interface CaptureOptions {
+  /** Playback time (seconds) to render before capturing. Defaults to the current time. */
+  time?: number;
+  /** Image format. Defaults to 'image/png'. */
+  type?: ImageMimeType;
+  /** Quality between 0 and 1 for lossy formats. */
+  quality?: number;
+}
+
+export interface SequenceOptions {
+  /** Number of frames to render. */
+  frames: number;
+  /** Frames per second. Frame `i` renders at `startTime + i / fps`. Defaults to 60. */
+  fps?: number;
+  /** Time of the first frame in seconds. Defaults to 0. */
+  startTime?: number;
+  /** Output width in pixels. Defaults to the current drawing buffer width. */
+  width?: number;
+  /** Output height in pixels. Defaults to the current drawing buffer height. */
+  height?: number;
+  /** Image format. Defaults to 'image/png'. */
+  type?: ImageMimeType;
+  /** Quality between 0 and 1 for lossy formats. */
+  quality?: number;
+  /** Called after each frame is encoded. */
+  onProgress?: (frame: number, total: number) => void;
+}
+
+export interface RecordOptions {
+  /** Stops automatically after this many seconds. */
+  duration?: number;
+  /** Capture frame rate. Defaults to 60. */
+  fps?: number;
+  /** Container/codec. Defaults to the first supported of VP9 and VP8 WebM. */
+  mimeType?: string;
+  /** Target bitrate. Defaults to the browser's choice. */
+  videoBitsPerSecond?: number;
+}
+
+/**
+ * A running `MediaRecorder` capture of the canvas.
+ */
+export interface Recording {
+  /** Resolves with the video once recording stops. */
+  readonly result: Promise<Blob>;
+  /** Stops recording and resolves with the video. */
+  stop(): Promise<Blob>;
+}
+
+/**
+ * Encodes the canvas as an image. Must be called in the same task as the draw,
+ * before the browser presents (and clears) the drawing buffer.
+ */
+export function canvasToBlob(
+  canvas: HTMLCanvasElement | OffscreenCanvas,
+  type: ImageMimeType = 'image/png',
+  quality?: number
+): Promise<Blob> {
+  // OffscreenCanvas encodes from a snapshot taken synchronously, so it can use the promise API
+  if (!('toBlob' in canvas)) {
+    return canvas.convertToBlob({ type, quality }).catch(() => {
+      throw new Error(`[ShaderUp] Unable to encode the canvas as ${type}.`);
+    });
+  }
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => {
+      if (blob) resolve(blob);
+      else reject(new Error(`[ShaderUp] Unable to encode the canvas as ${type}.`));
+    }, type, quality);
+  });
+}
+
+/**
+ * Reads the current drawing buffer into top-down ImageData.
+ * @param region Part of the buffer to read, as [x, y, width, height] from the bottom-left. Defaults to all of it.
+ */
+export function readPixels(
+  gl: WebGLRenderingContext | WebGL2RenderingContext,
+  region: [number, number, number, number] = [0, 0, gl.drawingBufferWidth, gl.drawingBufferHeight]
+): ImageData {
+  const [x, y, width, height] = region;
+  const pixels = new Uint8ClampedArray(width * height * 4);
+  gl.readPixels(x, y, width, height, gl.RGBA, gl.UNSIGNED_BYTE, pixels);
+
+  // WebGL rows start at the bottom
+  const rowSize = width * 4;
+  const flipped = new Uint8ClampedArray(pixels.length);
+  for (let y = 0; y < height; y++) {
+    flipped.set(pixels.subarray(y * rowSize, (y + 1) * rowSize), (height - 1 - y) * rowSize);
+  }
+  return new ImageData(flipped, width, height);
+}
+
+/**
+ * Records a canvas to video with `MediaRecorder`.
+ */
+export function recordCanvas(canvas: HTMLCanvasElement, options: RecordOptions = {}): Recording {
+  if (typeof MediaRecorder === 'undefined' || !canvas.captureStream) {
+    throw new Error("[ShaderUp] Recording requires MediaRecorder and canvas.captureStream().");
+  }
+
+  const mimeType = options.mimeType
+    ?? ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'].find(type => MediaRecorder.isTypeSupported(type));
+
+  const stream = canvas.captureStream(options.fps ?? 60);
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: options.videoBitsPerSecond });
+  const chunks: Blob[] = [];
+  let timeout: ReturnType<typeof setTimeout> | null = null;
+
+  const result = new Promise<Blob>((resolve, reject) => {
+    recorder.ondataavailable = e => {
+      if (e.data.size > 0) chunks.push(e.data);
+    };
+    recorder.onstop = () => {
+      stream.getTracks().forEach(track => track.stop());
+      resolve(new Blob(chunks, { type: recorder.mimeType || 'video/webm' }));
+    };
+    recorder.onerror = () => reject(new Error("[ShaderUp] Recording failed."));
+  });
+
+  const stop = (): Promise<Blob> => {
+    if (timeout !== null) clearTimeout(timeout);
+    if (recorder.state !== 'inactive') recorder.stop();
+    return result;
+  };
+
+  recorder.start();
+  if (options.duration !== undefined) {
+    timeout = setTimeout(stop, options.duration * 1000);
+  }
+
+  return { result, stop };
+}
@@ -0,0 +1,15 @@
+import { color } from './color';
+import { hash } from './hash';
+import { simplexNoise, valueNoise } from './noise';
+import { sdf } from './sdf';
+
+/**
+ * The built-in chunk library, available to `#include "name"` in every shader.
+ */
+export const BUILTIN_CHUNKS: { [name: string]: string } = {
+  'hash': hash,
+  'noise/value': valueNoise,
+  'noise/simplex': simplexNoise,
+  'sdf': sdf,
+  'color': color,
+};
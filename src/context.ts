@@ -0,0 +1,16 @@
+/**
+ * Creates the context for a canvas instead of `canvas.getContext()`, e.g. with headless-gl.
+ * Returning null means WebGL is not available.
+ */
+export type ContextFactory = (
+  canvas: HTMLCanvasElement | OffscreenCanvas,
+  attributes: WebGLContextAttributes
+) => WebGLRenderingContext | WebGL2RenderingContext | null;
+
+/**
+ * Whether a context has the WebGL2 API. Checked by feature rather than with `instanceof`,
+ * so injected contexts are recognized outside the browser too.
+ */
+export function isWebGL2Context(gl: WebGLRenderingContext | WebGL2RenderingContext): gl is WebGL2RenderingContext {
+  return typeof (gl as WebGL2RenderingContext).createVertexArray === 'function';
+}
@@ -0,0 +1,147 @@
+export type ShaderStage = 'vertex' | 'fragment';
+
+/**
+ * Where a line of the compiled shader came from.
+ * A line map is an array of these, where index `i` describes line `i + 1`.
+ */
+export interface SourceLocation {
+  /** 'main' for the user's shader, or the name of an include/injected chunk. */
+  source: string;
+  /** 1-based line within that source. */
+  line: number;
+}
+
+/**
+ * A single error or warning parsed from a driver info log.
+ */
+export interface ShaderDiagnostic {
+  /** The shader stage, or null for program link errors. */
+  stage: ShaderStage | null;
+  severity: 'error' | 'warning';
+  /** 'main' for the user's shader, or the name of the include the line belongs to. */
+  source: string;
+  /** 1-based line in `source`, or null if the log did not reference one. */
+  line: number | null;
+  /** 1-based column, when the driver reports it. */
+  column: number | null;
+  message: string;
+  /** The text of the offending line. */
+  sourceLine: string | null;
+}
+
+/**
+ * Thrown when a vertex or fragment shader fails to compile.
+ */
+export class ShaderCompileError extends Error {
+  public readonly stage: ShaderStage;
+  public readonly diagnostics: ShaderDiagnostic[];
+  /** The raw driver info log. */
+  public readonly log: string;
+
+  /**
+   * @param stage The stage that failed.
+   * @param diagnostics Parsed errors, see `parseShaderLog()`.
+   * @param log The raw driver info log, if the error came from the driver.
+   */
+  constructor(stage: ShaderStage, diagnostics: ShaderDiagnostic[], log = '') {
+    const label = stage === 'vertex' ? 'Vertex' : 'Fragment';
+    super(`[ShaderUp] ${label} shader compilation failed:\n${formatDiagnostics(diagnostics, log)}`);
+    this.name = 'ShaderCompileError';
+    this.stage = stage;
+    this.diagnostics = diagnostics;
+    this.log = log;
+  }
+}
+
+/**
+ * Thrown when compiled shaders fail to link into a program (e.g. mismatched varyings).
+ */
+export class ShaderLinkError extends Error {
+  public readonly diagnostics: ShaderDiagnostic[];
+  /** The raw driver info log. */
+  public readonly log: string;
+
+  constructor(log: string) {
+    const diagnostics = parseShaderLog(log, null);
+    super(`[ShaderUp] Program linking failed:\n${formatDiagnostics(diagnostics, log)}`);
+    this.name = 'ShaderLinkError';
+    this.diagnostics = diagnostics;
+    this.log = log;
+  }
+}
+
+// ANGLE, Firefox and Safari: "ERROR: 0:12: 'foo' : undeclared identifier"
+const ANGLE_PATTERN = /^(ERROR|WARNING):\s*\d+:(\d+):\s*(.*)$/i;
+// Mesa: "0:12(5): error: `foo' undeclared"
+const MESA_PATTERN = /^\d+:(\d+)\((\d+)\):\s*(error|warning)\s*:?\s*(.*)$/i;
+// NVIDIA: "0(12) : error C1008: undefined variable "foo""
+const NVIDIA_PATTERN = /^\d+\((\d+)\)\s*:\s*(error|warning)\s*(?:[A-Z]\d+)?\s*:?\s*(.*)$/i;
+// Messages without a location: "ERROR: too many uniforms"
+const PLAIN_PATTERN = /^(ERROR|WARNING):\s*(.*)$/i;
+
+/**
+ * Parses a driver info log into diagnostics. Line numbers are mapped back through
+ * `lineMap` so they point at the original file, not the generated source.
+ */
+export function parseShaderLog(
+  log: string,
+  stage: ShaderStage | null,
+  source?: string,
+  lineMap?: SourceLocation[]
+): ShaderDiagnostic[] {
+  const sourceLines = source?.split('\n') ?? [];
+  const diagnostics: ShaderDiagnostic[] = [];
+
+  for (const rawLine of log.split('\n')) {
+    const text = rawLine.replace(/\0/g, '').trim();
+    if (!text) continue;
+
+    let severity: string;
+    let line: number | null = null;
+    let column: number | null = null;
+    let message: string;
+
+    let match: RegExpExecArray | null;
+    if ((match = ANGLE_PATTERN.exec(text))) {
+      [, severity, , message] = match;
+      line = Number(match[2]);
+    } else if ((match = MESA_PATTERN.exec(text))) {
+      line = Number(match[1]);
+      column = Number(match[2]);
+      [, , , severity, message] = match;
+    } else if ((match = NVIDIA_PATTERN.exec(text))) {
+      line = Number(match[1]);
+      [, , severity, message] = match;
+    } else if ((match = PLAIN_PATTERN.exec(text))) {
+      [, severity, message] = match;
+    } else {
+      severity = 'error';
+      message = text;
+    }
+
+    const generatedLine = line;
+    const location = generatedLine !== null ? lineMap?.[generatedLine - 1] : undefined;
+
+    diagnostics.push({
+      stage,
+      severity: severity.toLowerCase() === 'warning' ? 'warning' : 'error',
+      source: location?.source ?? 'main',
+      line: location?.line ?? line,
+      column,
+      message: message.trim(),
+      sourceLine: generatedLine !== null ? sourceLines[generatedLine - 1] ?? null : null,
+    });
+  }
+
+  return diagnostics;
+}
+
+function formatDiagnostics(diagnostics: ShaderDiagnostic[], log: string): string {
+  if (diagnostics.length === 0) return log;
+
+  return diagnostics.map(d => {
+    const position = d.line !== null ? `${d.source}:${d.line}${d.column !== null ? `:${d.column}` : ''}: ` : '';
+    const code = d.sourceLine !== null ? `\n    > ${d.sourceLine.trim()}` : '';
+    return `  ${position}${d.severity}: ${d.message}${code}`;
+  }).join('\n');
+}
@@ -0,0 +1,271 @@
+import { getComponentBytes, type AttributeType } from './attributes';
+
+export type PrimitiveType =
+  | 'triangles' | 'triangle-strip' | 'triangle-fan'
+  | 'lines' | 'line-strip' | 'line-loop'
+  | 'points';
+
+/** One per-vertex attribute of a geometry, in its own buffer. */
+export interface GeometryAttribute {
+  /** The values, `size` per vertex. Plain arrays are stored as floats. */
+  data: number[] | Float32Array | Int8Array | Uint8Array | Int16Array | Uint16Array | Int32Array | Uint32Array;
+  /** Number of components per vertex, e.g. 2 for a vec2. */
+  size: 1 | 2 | 3 | 4;
+  /** The component type. Defaults to the type of `data`; 'HALF_FLOAT' data is passed as a Uint16Array. */
+  type?: AttributeType;
+  /** Maps integer components to [0, 1] (unsigned) or [-1, 1] (signed) floats. Defaults to false. */
+  normalized?: boolean;
+}
+
+/**
+ * Vertices to draw, for the 'mesh' renderMode or in place of the unit quad in 'instanced' mode.
+ * The attributes are matched to the vertex shader inputs by name.
+ */
+export interface Geometry {
+  attributes: { [name: string]: GeometryAttribute };
+  /** Vertex indices, drawn with `drawElements`. Plain arrays are stored as 16-bit or 32-bit as needed. */
+  indices?: number[] | Uint8Array | Uint16Array | Uint32Array;
+  /** How vertices are assembled. Defaults to 'triangles'. */
+  primitive?: PrimitiveType;
+}
+
+/** A geometry with its data in GPU-ready form. */
+export interface PreparedGeometry {
+  attributes: {
+    name: string;
+    data: ArrayBufferView;
+    size: number;
+    type: AttributeType;
+    normalized: boolean;
+  }[];
+  indices: Uint8Array | Uint16Array | Uint32Array | null;
+  mode: PrimitiveMode;
+  /** Number of vertices (or indices) to draw. */
+  count: number;
+}
+
+type PrimitiveMode = 'TRIANGLES' | 'TRIANGLE_STRIP' | 'TRIANGLE_FAN' | 'LINES' | 'LINE_STRIP' | 'LINE_LOOP' | 'POINTS';
+
+const PRIMITIVE_MODES: { [primitive in PrimitiveType]: PrimitiveMode } = {
+  'triangles': 'TRIANGLES',
+  'triangle-strip': 'TRIANGLE_STRIP',
+  'triangle-fan': 'TRIANGLE_FAN',
+  'lines': 'LINES',
+  'line-strip': 'LINE_STRIP',
+  'line-loop': 'LINE_LOOP',
+  'points': 'POINTS',
+};
+
+/** The unit quad drawn per instance when no geometry is given: `a_quadVertex` from (0,0) to (1,1). */
+export const UNIT_QUAD: Geometry = {
+  attributes: {
+    a_quadVertex: { size: 2, data: [0, 0, 1, 0, 0, 1, 0, 1, 1, 0, 1, 1] },
+  },
+};
+
+/**
+ * Converts the attribute and index data to typed arrays and works out the draw call.
+ * @throws Error if an attribute's type cannot be inferred from its data.
+ */
+export function prepareGeometry(geometry: Geometry): PreparedGeometry {
+  const attributes = Object.entries(geometry.attributes).map(([name, attribute]) => {
+    const data = Array.isArray(attribute.data) ? new Float32Array(attribute.data) : attribute.data;
+    const type = attribute.type ?? getDataType(data);
+    if (!type) {
+      throw new Error(`[ShaderUp] Cannot infer the type of geometry attribute "${name}". Set 'type'.`);
+    }
+    return { name, data, size: attribute.size, type, normalized: attribute.normalized ?? false };
+  });
+
+  let indices: Uint8Array | Uint16Array | Uint32Array | null = null;
+  if (geometry.indices) {
+    const source = geometry.indices;
+    if (Array.isArray(source)) {
+      indices = source.some(index => index > 0xffff) ? new Uint32Array(source) : new Uint16Array(source);
+    } else {
+      indices = source;
+    }
+  }
+
+  // Without indices, the shortest attribute decides how many vertices there are
+  const vertexCount = attributes.length > 0
+    ? Math.min(...attributes.map(a => Math.floor(a.data.byteLength / (getComponentBytes(a.type) * a.size))))
+    : 0;
+
+  return {
+    attributes,
+    indices,
+    mode: PRIMITIVE_MODES[geometry.primitive ?? 'triangles'],
+    count: indices ? indices.length : vertexCount,
+  };
+}
+
+export interface PlaneOptions {
+  /** Defaults to 2, spanning clip space. */
+  width?: number;
+  /** Defaults to 2, spanning clip space. */
+  height?: number;
+  /** Columns of quads. Defaults to 1. */
+  widthSegments?: number;
+  /** Rows of quads. Defaults to 1. */
+  heightSegments?: number;
+}
+
+/**
+ * A subdivided rectangle centered on the origin, e.g. for warped grids.
+ * Has `a_position` (vec2) and `a_uv` (vec2, 0-1 from the bottom-left).
+ */
+export function createPlane(options: PlaneOptions = {}): Geometry {
+  const { width = 2, height = 2 } = options;
+  const columns = Math.max(1, Math.floor(options.widthSegments ?? 1));
+  const rows = Math.max(1, Math.floor(options.heightSegments ?? 1));
+
+  const points: number[] = [];
+  for (let row = 0; row <= rows; row++) {
+    for (let column = 0; column <= columns; column++) {
+      points.push((column / columns - 0.5) * width, (row / rows - 0.5) * height);
+    }
+  }
+
+  const indices: number[] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      const a = row * (columns + 1) + column;
+      const b = a + 1;
+      const c = a + columns + 1;
+      const d = c + 1;
+      indices.push(a, b, c, c, b, d);
+    }
+  }
+
+  return createFlatGeometry(points, indices, width, height);
+}
+
+export interface CircleOptions {
+  /** Defaults to 1. */
+  radius?: number;
+  /** Number of edges around the rim. Defaults to 32. */
+  segments?: number;
+}
+
+/**
+ * A filled circle centered on the origin.
+ * Has `a_position` (vec2) and `a_uv` (vec2, 0-1 across its bounding box).
+ */
+export function createCircle(options: CircleOptions = {}): Geometry {
+  const { radius = 1 } = options;
+  const segments = Math.max(3, Math.floor(options.segments ?? 32));
+
+  const points = [0, 0];
+  const indices: number[] = [];
+  for (let i = 0; i < segments; i++) {
+    const angle = (i / segments) * Math.PI * 2;
+    points.push(Math.cos(angle) * radius, Math.sin(angle) * radius);
+    indices.push(0, i + 1, ((i + 1) % segments) + 1);
+  }
+
+  return createFlatGeometry(points, indices, radius * 2, radius * 2);
+}
+
+export interface RingOptions {
+  /** Defaults to 0.5. */
+  innerRadius?: number;
+  /** Defaults to 1. */
+  outerRadius?: number;
+  /** Number of edges around the ring. Defaults to 32. */
+  segments?: number;
+}
+
+/**
+ * A ring (annulus) centered on the origin.
+ * Has `a_position` (vec2) and `a_uv` (vec2, 0-1 across its bounding box).
+ */
+export function createRing(options: RingOptions = {}): Geometry {
+  const { innerRadius = 0.5, outerRadius = 1 } = options;
+  const segments = Math.max(3, Math.floor(options.segments ?? 32));
+
+  const points: number[] = [];
+  const indices: number[] = [];
+  for (let i = 0; i < segments; i++) {
+    const angle = (i / segments) * Math.PI * 2;
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    points.push(cos * innerRadius, sin * innerRadius, cos * outerRadius, sin * outerRadius);
+
+    const inner = i * 2;
+    const nextInner = ((i + 1) % segments) * 2;
+    indices.push(inner, inner + 1, nextInner, nextInner, inner + 1, nextInner + 1);
+  }
+
+  return createFlatGeometry(points, indices, outerRadius * 2, outerRadius * 2);
+}
+
+export interface RoundedRectOptions {
+  /** Defaults to 2. */
+  width?: number;
+  /** Defaults to 2. */
+  height?: number;
+  /** Corner radius, clamped to half the shorter side. Defaults to 0.25. */
+  radius?: number;
+  /** Edges per corner. Defaults to 8. */
+  segments?: number;
+}
+
+/**
+ * A rectangle with rounded corners, centered on the origin.
+ * Has `a_position` (vec2) and `a_uv` (vec2, 0-1 from the bottom-left).
+ */
+export function createRoundedRect(options: RoundedRectOptions = {}): Geometry {
+  const { width = 2, height = 2 } = options;
+  const radius = Math.min(Math.max(options.radius ?? 0.25, 0), width / 2, height / 2);
+  const segments = Math.max(1, Math.floor(options.segments ?? 8));
+
+  // Corner centers, counter-clockwise from the top-right
+  const halfWidth = width / 2 - radius;
+  const halfHeight = height / 2 - radius;
+  const corners = [[halfWidth, halfHeight], [-halfWidth, halfHeight], [-halfWidth, -halfHeight], [halfWidth, -halfHeight]];
+
+  // A fan from the center over the outline
+  const points = [0, 0];
+  corners.forEach(([cx, cy], corner) => {
+    for (let i = 0; i <= segments; i++) {
+      const angle = (corner + i / segments) * (Math.PI / 2);
+      points.push(cx + Math.cos(angle) * radius, cy + Math.sin(angle) * radius);
+    }
+  });
+
+  const outline = points.length / 2 - 1;
+  const indices: number[] = [];
+  for (let i = 0; i < outline; i++) {
+    indices.push(0, i + 1, ((i + 1) % outline) + 1);
+  }
+
+  return createFlatGeometry(points, indices, width, height);
+}
+
+/** Adds UVs spanning the bounding box to 2D points centered on the origin. */
+function createFlatGeometry(points: number[], indices: number[], width: number, height: number): Geometry {
+  const uvs = points.map((value, i) => {
+    const extent = i % 2 === 0 ? width : height;
+    return extent > 0 ? value / extent + 0.5 : 0.5;
+  });
+
+  return {
+    attributes: {
+      a_position: { size: 2, data: points },
+      a_uv: { size: 2, data: uvs },
+    },
+    indices,
+  };
+}
+
+function getDataType(data: ArrayBufferView): AttributeType | null {
+  if (data instanceof Float32Array) return 'FLOAT';
+  if (data instanceof Int8Array) return 'BYTE';
+  if (data instanceof Uint8Array) return 'UNSIGNED_BYTE';
+  if (data instanceof Int16Array) return 'SHORT';
+  if (data instanceof Uint16Array) return 'UNSIGNED_SHORT';
+  if (data instanceof Int32Array) return 'INT';
+  if (data instanceof Uint32Array) return 'UNSIGNED_INT';
+  return null;
+}
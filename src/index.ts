@@ -1 +1,30 @@
 export * from './ShaderUp';
+export type {
+  AnimationHandle,
+  AnimationValue,
+  Easing,
+  EasingName,
+  Keyframe,
+  KeyframeOptions,
+  SpringOptions,
+  Transition,
+  TweenOptions,
+} from './Animator';
+export * from './errors';
+export { createCircle, createPlane, createRing, createRoundedRect } from './geometry';
+export type {
+  CircleOptions,
+  Geometry,
+  GeometryAttribute,
+  PlaneOptions,
+  PrimitiveType,
+  RingOptions,
+  RoundedRectOptions,
+} from './geometry';
+export * from './InstanceView';
+export * from './preprocessor';
+export { createRecordingContext } from './recordingContext';
+export type { RecordedCall, RecordingContext, RecordingContextOptions, ResourceCounts } from './recordingContext';
+export * from './ShaderUpProxy';
+export * from './ShaderUpRenderer';
+export type { CaptureOptions, ImageMimeType, RecordOptions, Recording, SequenceOptions } from './capture';
@@ -0,0 +1,138 @@
+import { BUILTIN_CHUNKS } from './chunks';
+import type { SourceLocation } from './errors';
+
+/**
+ * Values injected as `#define`s. `true` defines a flag, `false` leaves it undefined,
+ * numbers and strings are written as-is (use '1.0' for a float literal).
+ */
+export type ShaderDefines = { [name: string]: string | number | boolean };
+
+export interface PreprocessOptions {
+  defines?: ShaderDefines;
+  /** Chunks available to `#include`, in addition to the global registry. Take precedence over it. */
+  chunks?: { [name: string]: string };
+  /** Name used for the top-level source in the line map. Defaults to 'main'. */
+  name?: string;
+  /** Generated code placed around the source, e.g. a compatibility prelude and `main()`. */
+  wrapper?: { name: string; header: string; footer: string };
+}
+
+export interface PreprocessedShader {
+  /** The source to pass to the driver. */
+  code: string;
+  /** Where each line of `code` came from, for error reporting. */
+  lineMap: SourceLocation[];
+}
+
+/**
+ * Thrown when an `#include` cannot be resolved.
+ */
+export class ShaderIncludeError extends Error {
+  /** The file containing the `#include`. */
+  public readonly source: string;
+  /** 1-based line of the `#include` in `source`. */
+  public readonly line: number;
+  public readonly include: string;
+
+  constructor(include: string, source: string, line: number) {
+    super(`[ShaderUp] Unknown chunk "${include}" included from ${source}:${line}.`);
+    this.name = 'ShaderIncludeError';
+    this.include = include;
+    this.source = source;
+    this.line = line;
+  }
+}
+
+const INCLUDE_PATTERN = /^\s*#include\s+["<]([^">]+)[">]\s*(?:\/\/.*)?$/;
+const VERSION_PATTERN = /^\s*#version\b/;
+
+const registry: Map<string, string> = new Map(Object.entries(BUILTIN_CHUNKS));
+
+/**
+ * Registers a chunk globally so any shader can `#include "name"` it.
+ * Overrides a built-in chunk of the same name.
+ */
+export function registerChunk(name: string, source: string): void {
+  registry.set(name, source);
+}
+
+/**
+ * Resolves `#include`s and injects `#define`s.
+ * Each chunk is included at most once per shader, so shared dependencies (and cycles) are safe.
+ * @throws ShaderIncludeError if a chunk is not registered.
+ */
+export function preprocess(source: string, options: PreprocessOptions = {}): PreprocessedShader {
+  const lines: string[] = [];
+  const lineMap: SourceLocation[] = [];
+  const included = new Set<string>();
+
+  const expand = (code: string, name: string): void => {
+    // Directives inside block comments are left as they are; `// #include` never matches the pattern
+    let inComment = false;
+    code.split('\n').forEach((text, index) => {
+      const match = inComment ? null : INCLUDE_PATTERN.exec(text);
+      inComment = endsInBlockComment(text, inComment);
+      if (!match) {
+        lines.push(text);
+        lineMap.push({ source: name, line: index + 1 });
+        return;
+      }
+
+      const chunkName = match[1];
+      if (included.has(chunkName)) return;
+
+      const chunk = options.chunks?.[chunkName] ?? registry.get(chunkName);
+      if (chunk === undefined) throw new ShaderIncludeError(chunkName, name, index + 1);
+
+      included.add(chunkName);
+      expand(chunk, chunkName);
+    });
+  };
+
+  const { wrapper } = options;
+  if (wrapper) expand(wrapper.header, wrapper.name);
+  expand(source, options.name ?? 'main');
+  if (wrapper) expand(wrapper.footer, wrapper.name);
+
+  // Defines go right after `#version`, which must stay the first line
+  const defines = formatDefines(options.defines);
+  if (defines.length > 0) {
+    const versionIndex = lines.findIndex(line => VERSION_PATTERN.test(line));
+    const insertAt = versionIndex === -1 ? 0 : versionIndex + 1;
+    lines.splice(insertAt, 0, ...defines);
+    lineMap.splice(insertAt, 0, ...defines.map((_, i) => ({ source: '<defines>', line: i + 1 })));
+  }
+
+  return { code: lines.join('\n'), lineMap };
+}
+
+/** Whether a line ends inside a block comment, given whether it starts in one. */
+function endsInBlockComment(text: string, inComment: boolean): boolean {
+  let i = 0;
+  while (i < text.length) {
+    if (inComment) {
+      const end = text.indexOf('*/', i);
+      if (end === -1) return true;
+      inComment = false;
+      i = end + 2;
+    } else {
+      const start = text.indexOf('/*', i);
+      const lineComment = text.indexOf('//', i);
+      if (start === -1 || (lineComment !== -1 && lineComment < start)) return false;
+      inComment = true;
+      i = start + 2;
+    }
+  }
+  return inComment;
+}
+
+function formatDefines(defines?: ShaderDefines): string[] {
+  if (!defines) return [];
+
+  const lines: string[] = [];
+  for (const [name, value] of Object.entries(defines)) {
+    if (value === false) continue;
+    lines.push(value === true ? `#define ${name}` : `#define ${name} ${value}`);
+  }
+  return lines;
+}
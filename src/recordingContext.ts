@@ -0,0 +1,376 @@
+/** One call made on a recording context. */
+export interface RecordedCall {
+  method: string;
+  args: unknown[];
+}
+
+export interface RecordingContextOptions {
+  /** 2 for the WebGL2 API, 1 to leave out its methods and constants. Defaults to 2. */
+  version?: 1 | 2;
+  /** Initial canvas width in pixels. Defaults to 300, like a canvas element. */
+  width?: number;
+  /** Initial canvas height in pixels. Defaults to 150, like a canvas element. */
+  height?: number;
+  /** Extensions `getExtension()` returns an object for. Defaults to `['WEBGL_lose_context']`. */
+  extensions?: string[];
+  /** What `getContextAttributes()` reports, over the WebGL defaults. */
+  contextAttributes?: WebGLContextAttributes;
+}
+
+/** GPU objects created and not yet deleted, by kind. */
+export interface ResourceCounts {
+  buffer: number;
+  texture: number;
+  framebuffer: number;
+  renderbuffer: number;
+  shader: number;
+  program: number;
+  vertexArray: number;
+}
+
+/** What a recording context adds to the WebGL API. */
+export interface RecordingContext {
+  /** Every call so far, in order. */
+  readonly calls: RecordedCall[];
+  /** The calls to one method, e.g. `callsTo('drawArrays')`. */
+  callsTo(method: string): RecordedCall[];
+  clearCalls(): void;
+  /** Objects created and not yet deleted, e.g. to check that `dispose()` releases everything. */
+  liveResources(): ResourceCounts;
+}
+
+/** A stand-in for the objects WebGL returns, tagged for readable assertions. */
+interface RecordedObject {
+  kind: keyof ResourceCounts;
+  id: number;
+}
+
+interface RecordedShader extends RecordedObject {
+  type: number;
+  source: string;
+}
+
+interface ActiveVariable {
+  name: string;
+  type: number;
+  size: number;
+}
+
+interface RecordedProgram extends RecordedObject {
+  shaders: Set<RecordedShader>;
+  uniforms: ActiveVariable[];
+  attributes: ActiveVariable[];
+  boundLocations: Map<string, number>;
+  attributeLocations: Map<string, number>;
+  uniformLocations: Map<string, { name: string }>;
+}
+
+const WEBGL1_METHODS = [
+  'activeTexture', 'attachShader', 'bindAttribLocation', 'bindBuffer', 'bindFramebuffer', 'bindRenderbuffer',
+  'bindTexture', 'blendColor', 'blendEquation', 'blendEquationSeparate', 'blendFunc', 'blendFuncSeparate',
+  'bufferData', 'bufferSubData', 'checkFramebufferStatus', 'clear', 'clearColor', 'clearDepth', 'clearStencil',
+  'colorMask', 'compileShader', 'createBuffer', 'createFramebuffer', 'createProgram', 'createRenderbuffer',
+  'createShader', 'createTexture', 'cullFace', 'deleteBuffer', 'deleteFramebuffer', 'deleteProgram',
+  'deleteRenderbuffer', 'deleteShader', 'deleteTexture', 'depthFunc', 'depthMask', 'detachShader', 'disable',
+  'disableVertexAttribArray', 'drawArrays', 'drawElements', 'enable', 'enableVertexAttribArray', 'finish', 'flush',
+  'framebufferRenderbuffer', 'framebufferTexture2D', 'frontFace', 'generateMipmap', 'getActiveAttrib',
+  'getActiveUniform', 'getAttribLocation', 'getContextAttributes', 'getError', 'getExtension', 'getParameter',
+  'getProgramInfoLog', 'getProgramParameter', 'getShaderInfoLog', 'getShaderParameter', 'getShaderSource',
+  'getSupportedExtensions', 'getUniformLocation', 'isContextLost', 'linkProgram', 'pixelStorei', 'readPixels',
+  'renderbufferStorage', 'scissor', 'shaderSource', 'stencilFunc', 'stencilMask', 'stencilOp', 'texImage2D',
+  'texParameterf', 'texParameteri', 'texSubImage2D',
+  'uniform1f', 'uniform1fv', 'uniform1i', 'uniform1iv', 'uniform2f', 'uniform2fv', 'uniform2i', 'uniform2iv',
+  'uniform3f', 'uniform3fv', 'uniform3i', 'uniform3iv', 'uniform4f', 'uniform4fv', 'uniform4i', 'uniform4iv',
+  'uniformMatrix2fv', 'uniformMatrix3fv', 'uniformMatrix4fv', 'useProgram', 'vertexAttribPointer', 'viewport',
+];
+
+const WEBGL2_METHODS = [
+  'bindVertexArray', 'blitFramebuffer', 'createVertexArray', 'deleteVertexArray', 'drawArraysInstanced',
+  'drawBuffers', 'drawElementsInstanced', 'readBuffer', 'texImage3D', 'texStorage2D', 'vertexAttribDivisor',
+  'vertexAttribIPointer', 'uniform1ui', 'uniform1uiv', 'uniform2ui', 'uniform2uiv', 'uniform3ui', 'uniform3uiv',
+  'uniform4ui', 'uniform4uiv', 'uniformMatrix2x3fv', 'uniformMatrix2x4fv', 'uniformMatrix3x2fv',
+  'uniformMatrix3x4fv', 'uniformMatrix4x2fv', 'uniformMatrix4x3fv',
+];
+
+const WEBGL1_CONSTANTS = {
+  DEPTH_BUFFER_BIT: 0x0100, STENCIL_BUFFER_BIT: 0x0400, COLOR_BUFFER_BIT: 0x4000,
+  POINTS: 0, LINES: 1, LINE_LOOP: 2, LINE_STRIP: 3, TRIANGLES: 4, TRIANGLE_STRIP: 5, TRIANGLE_FAN: 6,
+  ZERO: 0, ONE: 1, SRC_COLOR: 0x0300, ONE_MINUS_SRC_COLOR: 0x0301, SRC_ALPHA: 0x0302, ONE_MINUS_SRC_ALPHA: 0x0303,
+  DST_ALPHA: 0x0304, ONE_MINUS_DST_ALPHA: 0x0305, DST_COLOR: 0x0306, ONE_MINUS_DST_COLOR: 0x0307,
+  SRC_ALPHA_SATURATE: 0x0308, CONSTANT_COLOR: 0x8001, ONE_MINUS_CONSTANT_COLOR: 0x8002, CONSTANT_ALPHA: 0x8003,
+  ONE_MINUS_CONSTANT_ALPHA: 0x8004, FUNC_ADD: 0x8006, FUNC_SUBTRACT: 0x800A, FUNC_REVERSE_SUBTRACT: 0x800B,
+  ARRAY_BUFFER: 0x8892, ELEMENT_ARRAY_BUFFER: 0x8893, STREAM_DRAW: 0x88E0, STATIC_DRAW: 0x88E4, DYNAMIC_DRAW: 0x88E8,
+  CULL_FACE: 0x0B44, BLEND: 0x0BE2, DEPTH_TEST: 0x0B71, STENCIL_TEST: 0x0B90, SCISSOR_TEST: 0x0C11,
+  NEVER: 0x0200, LESS: 0x0201, EQUAL: 0x0202, LEQUAL: 0x0203, GREATER: 0x0204, NOTEQUAL: 0x0205, GEQUAL: 0x0206,
+  ALWAYS: 0x0207, KEEP: 0x1E00, REPLACE: 0x1E01, INCR: 0x1E02, DECR: 0x1E03, INVERT: 0x150A, INCR_WRAP: 0x8507,
+  DECR_WRAP: 0x8508,
+  BYTE: 0x1400, UNSIGNED_BYTE: 0x1401, SHORT: 0x1402, UNSIGNED_SHORT: 0x1403, INT: 0x1404, UNSIGNED_INT: 0x1405,
+  FLOAT: 0x1406, ALPHA: 0x1906, RGB: 0x1907, RGBA: 0x1908, LUMINANCE: 0x1909,
+  FRAGMENT_SHADER: 0x8B30, VERTEX_SHADER: 0x8B31, DELETE_STATUS: 0x8B80, COMPILE_STATUS: 0x8B81,
+  LINK_STATUS: 0x8B82, ACTIVE_UNIFORMS: 0x8B86, ACTIVE_ATTRIBUTES: 0x8B89,
+  NEAREST: 0x2600, LINEAR: 0x2601, NEAREST_MIPMAP_NEAREST: 0x2700, LINEAR_MIPMAP_NEAREST: 0x2701,
+  NEAREST_MIPMAP_LINEAR: 0x2702, LINEAR_MIPMAP_LINEAR: 0x2703, TEXTURE_MAG_FILTER: 0x2800,
+  TEXTURE_MIN_FILTER: 0x2801, TEXTURE_WRAP_S: 0x2802, TEXTURE_WRAP_T: 0x2803, TEXTURE_2D: 0x0DE1,
+  TEXTURE_CUBE_MAP: 0x8513, TEXTURE0: 0x84C0, REPEAT: 0x2901, CLAMP_TO_EDGE: 0x812F, MIRRORED_REPEAT: 0x8370,
+  FRAMEBUFFER: 0x8D40, RENDERBUFFER: 0x8D41, COLOR_ATTACHMENT0: 0x8CE0, FRAMEBUFFER_COMPLETE: 0x8CD5,
+  UNPACK_ALIGNMENT: 0x0CF5, UNPACK_FLIP_Y_WEBGL: 0x9240, UNPACK_PREMULTIPLY_ALPHA_WEBGL: 0x9241,
+  UNPACK_COLORSPACE_CONVERSION_WEBGL: 0x9243, BROWSER_DEFAULT_WEBGL: 0x9244, NONE: 0, NO_ERROR: 0,
+  MAX_TEXTURE_SIZE: 0x0D33, MAX_VERTEX_ATTRIBS: 0x8869, MAX_COMBINED_TEXTURE_IMAGE_UNITS: 0x8B4D,
+};
+
+const WEBGL2_CONSTANTS = {
+  HALF_FLOAT: 0x140B, RED: 0x1903, RG: 0x8227, RED_INTEGER: 0x8D94, RG_INTEGER: 0x8228, RGB_INTEGER: 0x8D98,
+  RGBA_INTEGER: 0x8D99, R8: 0x8229, RG8: 0x822B, RGB8: 0x8051, RGBA8: 0x8058, R16F: 0x822D, RG16F: 0x822F,
+  RGBA16F: 0x881A, R32F: 0x822E, RG32F: 0x8230, RGBA32F: 0x8814, R8UI: 0x8232, RG8UI: 0x8238, RGBA8UI: 0x8D7C,
+  R32UI: 0x8236, R32I: 0x8235, SRGB8_ALPHA8: 0x8C43, MIN: 0x8007, MAX: 0x8008,
+  TEXTURE_3D: 0x806F, TEXTURE_2D_ARRAY: 0x8C1A,
+};
+
+/** GL enums `getActiveUniform` and `getActiveAttrib` report, by GLSL type. */
+const GLSL_TYPES: { [type: string]: number } = {
+  float: 0x1406, vec2: 0x8B50, vec3: 0x8B51, vec4: 0x8B52,
+  int: 0x1404, ivec2: 0x8B53, ivec3: 0x8B54, ivec4: 0x8B55,
+  uint: 0x1405, uvec2: 0x8DC6, uvec3: 0x8DC7, uvec4: 0x8DC8,
+  bool: 0x8B56, bvec2: 0x8B57, bvec3: 0x8B58, bvec4: 0x8B59,
+  mat2: 0x8B5A, mat3: 0x8B5B, mat4: 0x8B5C,
+  mat2x3: 0x8B65, mat2x4: 0x8B66, mat3x2: 0x8B67, mat3x4: 0x8B68, mat4x2: 0x8B69, mat4x3: 0x8B6A,
+  sampler2D: 0x8B5E, sampler3D: 0x8B5F, samplerCube: 0x8B60, sampler2DShadow: 0x8B62, sampler2DArray: 0x8DC1,
+  isampler2D: 0x8DCA, usampler2D: 0x8DD2,
+};
+
+// Parameters answered by `getParameter`, by GL enum
+const PARAMETERS: { [pname: number]: unknown } = {
+  0x0D33: 4096, // MAX_TEXTURE_SIZE
+  0x8869: 16,   // MAX_VERTEX_ATTRIBS
+  0x8B4D: 32,   // MAX_COMBINED_TEXTURE_IMAGE_UNITS
+  0x84FF: 16,   // MAX_TEXTURE_MAX_ANISOTROPY_EXT
+};
+
+// KHR_parallel_shader_compile
+const COMPLETION_STATUS_KHR = 0x91B1;
+
+/** The canvas of a recording context: a size and the context loss events. */
+class RecordingCanvas extends EventTarget {
+  public width: number;
+  public height: number;
+
+  constructor(width: number, height: number) {
+    super();
+    this.width = width;
+    this.height = height;
+  }
+}
+
+/**
+ * A fake WebGL context that records every call instead of drawing, for testing code built on
+ * `ShaderUp` without a GPU (e.g. in Node or jsdom). Pass it as the `context` option.
+ * Shaders always compile and link; active uniforms and attributes are read from their source,
+ * except for struct uniforms. `getExtension('WEBGL_lose_context')` simulates context loss.
+ * @example
+ * const gl = createRecordingContext();
+ * const shader = new ShaderUp({ context: gl, fragmentShader });
+ * shader.uniforms.u_intensity = 0.5;
+ * shader.renderFrame();
+ * gl.callsTo('uniform1f'); // [{ method: 'uniform1f', args: [{ name: 'u_intensity' }, 0.5] }, ...]
+ * shader.dispose();
+ * gl.liveResources();      // { buffer: 0, texture: 0, ... }
+ */
+export function createRecordingContext(
+  options: RecordingContextOptions = {}
+): (WebGLRenderingContext | WebGL2RenderingContext) & RecordingContext {
+  const version = options.version ?? 2;
+  const extensions = options.extensions ?? ['WEBGL_lose_context'];
+  const canvas = new RecordingCanvas(options.width ?? 300, options.height ?? 150);
+  const calls: RecordedCall[] = [];
+  const live = new Set<RecordedObject>();
+  let nextId = 1;
+  let isLost = false;
+
+  const create = <T extends RecordedObject>(object: Omit<T, 'id'>): T | null => {
+    if (isLost) return null;
+    const created = { ...object, id: nextId++ } as T;
+    live.add(created);
+    return created;
+  };
+  const remove = (object: RecordedObject | null) => {
+    if (object) live.delete(object);
+  };
+
+  const loseContext = {
+    loseContext: () => {
+      isLost = true;
+      live.clear();
+      canvas.dispatchEvent(new Event('webglcontextlost', { cancelable: true }));
+    },
+    restoreContext: () => {
+      isLost = false;
+      canvas.dispatchEvent(new Event('webglcontextrestored'));
+    },
+  };
+
+  // Methods with a result; every other method only records its call
+  const behaviors: { [method: string]: (...args: any[]) => unknown } = {
+    createBuffer: () => create({ kind: 'buffer' }),
+    createTexture: () => create({ kind: 'texture' }),
+    createFramebuffer: () => create({ kind: 'framebuffer' }),
+    createRenderbuffer: () => create({ kind: 'renderbuffer' }),
+    createVertexArray: () => create({ kind: 'vertexArray' }),
+    createShader: (type: number) => create<RecordedShader>({ kind: 'shader', type, source: '' }),
+    createProgram: () => create<RecordedProgram>({
+      kind: 'program',
+      shaders: new Set(),
+      uniforms: [],
+      attributes: [],
+      boundLocations: new Map(),
+      attributeLocations: new Map(),
+      uniformLocations: new Map(),
+    }),
+    deleteBuffer: remove,
+    deleteTexture: remove,
+    deleteFramebuffer: remove,
+    deleteRenderbuffer: remove,
+    deleteVertexArray: remove,
+    deleteShader: remove,
+    deleteProgram: remove,
+
+    shaderSource: (shader: RecordedShader, source: string) => {
+      shader.source = source;
+    },
+    getShaderSource: (shader: RecordedShader) => shader.source,
+    attachShader: (program: RecordedProgram, shader: RecordedShader) => {
+      program.shaders.add(shader);
+    },
+    detachShader: (program: RecordedProgram, shader: RecordedShader) => {
+      program.shaders.delete(shader);
+    },
+    bindAttribLocation: (program: RecordedProgram, index: number, name: string) => {
+      program.boundLocations.set(name, index);
+    },
+    linkProgram: (program: RecordedProgram) => linkProgram(program),
+    getShaderParameter: () => true,
+    getProgramParameter: (program: RecordedProgram, pname: number) => {
+      if (pname === WEBGL1_CONSTANTS.ACTIVE_UNIFORMS) return program.uniforms.length;
+      if (pname === WEBGL1_CONSTANTS.ACTIVE_ATTRIBUTES) return program.attributes.length;
+      if (pname === WEBGL1_CONSTANTS.DELETE_STATUS) return !live.has(program);
+      return true;
+    },
+    getShaderInfoLog: () => '',
+    getProgramInfoLog: () => '',
+    getActiveUniform: (program: RecordedProgram, index: number) => {
+      const uniform = program.uniforms[index];
+      if (!uniform) return null;
+      // Arrays are reported by their first element, like real drivers do
+      return { ...uniform, name: uniform.size > 1 ? `${uniform.name}[0]` : uniform.name };
+    },
+    getActiveAttrib: (program: RecordedProgram, index: number) => program.attributes[index] ?? null,
+    getAttribLocation: (program: RecordedProgram, name: string) => program.attributeLocations.get(name) ?? -1,
+    getUniformLocation: (program: RecordedProgram, name: string) => getUniformLocation(program, name),
+
+    getContextAttributes: () => ({
+      alpha: true, antialias: true, depth: true, stencil: false, premultipliedAlpha: true,
+      preserveDrawingBuffer: false, powerPreference: 'default', failIfMajorPerformanceCaveat: false,
+      desynchronized: false, ...options.contextAttributes,
+    }),
+    getSupportedExtensions: () => [...extensions],
+    getExtension: (name: string) => {
+      if (!extensions.includes(name)) return null;
+      if (name === 'WEBGL_lose_context') return loseContext;
+      if (name === 'KHR_parallel_shader_compile') return { COMPLETION_STATUS_KHR };
+      return {};
+    },
+    getParameter: (pname: number) => PARAMETERS[pname] ?? null,
+    getError: () => WEBGL1_CONSTANTS.NO_ERROR,
+    isContextLost: () => isLost,
+    checkFramebufferStatus: () => WEBGL1_CONSTANTS.FRAMEBUFFER_COMPLETE,
+  };
+
+  const methods = version === 2 ? [...WEBGL1_METHODS, ...WEBGL2_METHODS] : WEBGL1_METHODS;
+  const context: { [key: string]: unknown } = {
+    ...WEBGL1_CONSTANTS,
+    ...(version === 2 ? WEBGL2_CONSTANTS : {}),
+    canvas,
+    calls,
+    callsTo: (method: string) => calls.filter(call => call.method === method),
+    clearCalls: () => {
+      calls.length = 0;
+    },
+    liveResources: () => {
+      const counts: ResourceCounts = {
+        buffer: 0, texture: 0, framebuffer: 0, renderbuffer: 0, shader: 0, program: 0, vertexArray: 0,
+      };
+      live.forEach(object => counts[object.kind]++);
+      return counts;
+    },
+  };
+  for (const method of methods) {
+    context[method] = (...args: unknown[]) => {
+      calls.push({ method, args });
+      return behaviors[method]?.(...args);
+    };
+  }
+  Object.defineProperty(context, 'drawingBufferWidth', { get: () => canvas.width });
+  Object.defineProperty(context, 'drawingBufferHeight', { get: () => canvas.height });
+
+  return context as unknown as (WebGLRenderingContext | WebGL2RenderingContext) & RecordingContext;
+}
+
+/** Reads the active uniforms and attributes from the attached shaders' source. */
+function linkProgram(program: RecordedProgram): void {
+  const uniforms = new Map<string, ActiveVariable>();
+  const attributes: ActiveVariable[] = [];
+
+  for (const shader of program.shaders) {
+    const source = shader.source.replace(/\/\*[\s\S]*?\*\/|\/\/.*$/gm, '');
+    const defines = new Map<string, number>();
+    for (const [, name, value] of source.matchAll(/^\s*#define\s+(\w+)\s+(\d+)\s*$/gm)) {
+      defines.set(name, Number(value));
+    }
+
+    const uniformPattern = /\buniform\s+(?:(?:lowp|mediump|highp)\s+)?(\w+)\s+(\w+)\s*(?:\[\s*(\w+)\s*\])?\s*;/g;
+    for (const [, type, name, length] of source.matchAll(uniformPattern)) {
+      // Struct uniforms would be reported member by member, which the source alone doesn't tell
+      if (!(type in GLSL_TYPES) || uniforms.has(name)) continue;
+      const size = length === undefined ? 1 : Number(length) || defines.get(length) || 1;
+      uniforms.set(name, { name, type: GLSL_TYPES[type], size });
+    }
+
+    if (shader.type !== WEBGL1_CONSTANTS.VERTEX_SHADER) continue;
+    const attributePattern = /\b(?:attribute|in)\s+(?:(?:lowp|mediump|highp)\s+)?(\w+)\s+(\w+)\s*;/g;
+    for (const [, type, name] of source.matchAll(attributePattern)) {
+      if (type in GLSL_TYPES) attributes.push({ name, type: GLSL_TYPES[type], size: 1 });
+    }
+  }
+
+  // Bound locations first, then the lowest free ones in declaration order
+  const taken = new Set(attributes.map(a => program.boundLocations.get(a.name)).filter(loc => loc !== undefined));
+  let nextLocation = 0;
+  program.attributeLocations.clear();
+  for (const attribute of attributes) {
+    let location = program.boundLocations.get(attribute.name);
+    if (location === undefined) {
+      while (taken.has(nextLocation)) nextLocation++;
+      location = nextLocation++;
+    }
+    program.attributeLocations.set(attribute.name, location);
+  }
+
+  program.uniforms = [...uniforms.values()];
+  program.attributes = attributes;
+  program.uniformLocations.clear();
+}
+
+/** One location object per name, accepting `name`, `name[0]` and in-range `name[i]` for arrays. */
+function getUniformLocation(program: RecordedProgram, name: string): { name: string } | null {
+  const match = /^(\w+)(?:\[(\d+)\])?$/.exec(name);
+  if (!match) return null;
+  const uniform = program.uniforms.find(u => u.name === match[1]);
+  if (!uniform || Number(match[2] ?? 0) >= uniform.size) return null;
+
+  const key = match[2] === undefined || match[2] === '0' ? match[1] : name;
+  let location = program.uniformLocations.get(key);
+  if (!location) {
+    location = { name: key };
+    program.uniformLocations.set(key, location);
+  }
+  return location;
+}
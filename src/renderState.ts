@@ -0,0 +1,171 @@
+import { isWebGL2Context } from './context';
+
+export type BlendFactor =
+  | 'ZERO' | 'ONE'
+  | 'SRC_COLOR' | 'ONE_MINUS_SRC_COLOR' | 'DST_COLOR' | 'ONE_MINUS_DST_COLOR'
+  | 'SRC_ALPHA' | 'ONE_MINUS_SRC_ALPHA' | 'DST_ALPHA' | 'ONE_MINUS_DST_ALPHA'
+  | 'CONSTANT_COLOR' | 'ONE_MINUS_CONSTANT_COLOR' | 'CONSTANT_ALPHA' | 'ONE_MINUS_CONSTANT_ALPHA'
+  | 'SRC_ALPHA_SATURATE';
+
+/** 'MIN' and 'MAX' need WebGL2 or EXT_blend_minmax. */
+export type BlendEquation = 'FUNC_ADD' | 'FUNC_SUBTRACT' | 'FUNC_REVERSE_SUBTRACT' | 'MIN' | 'MAX';
+
+/** A blend function and equation, named like their WebGL constants. */
+export interface CustomBlend {
+  /** [src, dst] for all channels, or [srcRGB, dstRGB, srcAlpha, dstAlpha]. */
+  func: [BlendFactor, BlendFactor] | [BlendFactor, BlendFactor, BlendFactor, BlendFactor];
+  /** For all channels, or as [rgb, alpha]. Defaults to 'FUNC_ADD'. */
+  equation?: BlendEquation | [BlendEquation, BlendEquation];
+  /** RGBA for the CONSTANT_* factors. */
+  color?: [number, number, number, number];
+}
+
+/**
+ * How the main shader's output combines with what is already in the canvas:
+ * - 'none': replaces it, the default
+ * - 'normal': alpha blending of straight (non-premultiplied) colors
+ * - 'additive': adds color weighted by alpha, for glows and particles
+ * - 'premultiplied': alpha blending of colors already multiplied by alpha
+ * - 'multiply' / 'screen': darken / lighten what is underneath; colors are premultiplied like 'premultiplied'
+ */
+export type BlendMode = 'none' | 'normal' | 'additive' | 'multiply' | 'screen' | 'premultiplied' | CustomBlend;
+
+export type CompareFunc = 'NEVER' | 'LESS' | 'EQUAL' | 'LEQUAL' | 'GREATER' | 'NOTEQUAL' | 'GEQUAL' | 'ALWAYS';
+
+export type StencilOp = 'KEEP' | 'ZERO' | 'REPLACE' | 'INCR' | 'INCR_WRAP' | 'DECR' | 'DECR_WRAP' | 'INVERT';
+
+export interface DepthOptions {
+  /** Defaults to 'LESS'. */
+  func?: CompareFunc;
+  /** Whether passing fragments write their depth. Defaults to true. */
+  write?: boolean;
+}
+
+export interface StencilOptions {
+  /** Defaults to 'ALWAYS'. */
+  func?: CompareFunc;
+  /** Reference value for the test and for 'REPLACE'. Defaults to 0. */
+  ref?: number;
+  /** Bits compared by the test. Defaults to 0xff. */
+  mask?: number;
+  /** Bits written. Defaults to 0xff. */
+  writeMask?: number;
+  /** When the stencil test fails. Defaults to 'KEEP'. */
+  fail?: StencilOp;
+  /** When the stencil test passes but the depth test fails. Defaults to 'KEEP'. */
+  depthFail?: StencilOp;
+  /** When both tests pass. Defaults to 'KEEP'. */
+  pass?: StencilOp;
+}
+
+/**
+ * When the canvas is cleared before the main shader draws:
+ * - 'auto': unless a fullscreen shader without blending, depth or stencil overwrites every pixel anyway
+ * - 'always' / 'never'
+ */
+export type ClearPolicy = 'auto' | 'always' | 'never';
+
+/** The fixed-function state the main shader draws with. */
+export interface RenderState {
+  blend: BlendMode;
+  depth: DepthOptions | null;
+  stencil: StencilOptions | null;
+  clear: ClearPolicy;
+  clearColor: [number, number, number, number];
+}
+
+const BLEND_MODES: { [mode in Exclude<BlendMode, 'none' | CustomBlend>]: CustomBlend } = {
+  normal: { func: ['SRC_ALPHA', 'ONE_MINUS_SRC_ALPHA', 'ONE', 'ONE_MINUS_SRC_ALPHA'] },
+  additive: { func: ['SRC_ALPHA', 'ONE', 'ONE', 'ONE'] },
+  multiply: { func: ['DST_COLOR', 'ONE_MINUS_SRC_ALPHA', 'ONE', 'ONE_MINUS_SRC_ALPHA'] },
+  screen: { func: ['ONE', 'ONE_MINUS_SRC_COLOR', 'ONE', 'ONE_MINUS_SRC_ALPHA'] },
+  premultiplied: { func: ['ONE', 'ONE_MINUS_SRC_ALPHA', 'ONE', 'ONE_MINUS_SRC_ALPHA'] },
+};
+
+// WebGL2 MIN/MAX share their values with EXT_blend_minmax
+const MIN = 0x8007;
+const MAX = 0x8008;
+
+/**
+ * Sets blending, depth and stencil for the main shader and clears the bound framebuffer as the policy asks.
+ * Runs every frame, since passes and other views sharing the context change the same state.
+ * @param overwrites Whether the draw covers every pixel, i.e. a fullscreen shader.
+ */
+export function applyRenderState(
+  gl: WebGLRenderingContext | WebGL2RenderingContext,
+  state: RenderState,
+  overwrites: boolean
+): void {
+  const { blend, depth, stencil } = state;
+
+  if (blend === 'none') {
+    gl.disable(gl.BLEND);
+  } else {
+    const custom = typeof blend === 'string' ? BLEND_MODES[blend] : blend;
+    const [srcRGB, dstRGB, srcAlpha = srcRGB, dstAlpha = dstRGB] = custom.func;
+    const [rgb, alpha] = Array.isArray(custom.equation)
+      ? custom.equation
+      : [custom.equation ?? 'FUNC_ADD', custom.equation ?? 'FUNC_ADD'];
+    gl.enable(gl.BLEND);
+    gl.blendFuncSeparate(gl[srcRGB], gl[dstRGB], gl[srcAlpha], gl[dstAlpha]);
+    gl.blendEquationSeparate(getBlendEquation(gl, rgb), getBlendEquation(gl, alpha));
+    const [r, g, b, a] = custom.color ?? [0, 0, 0, 0];
+    gl.blendColor(r, g, b, a);
+  }
+
+  if (depth) {
+    gl.enable(gl.DEPTH_TEST);
+    gl.depthFunc(gl[depth.func ?? 'LESS']);
+    gl.depthMask(depth.write ?? true);
+  } else {
+    gl.disable(gl.DEPTH_TEST);
+  }
+
+  if (stencil) {
+    gl.enable(gl.STENCIL_TEST);
+    gl.stencilFunc(gl[stencil.func ?? 'ALWAYS'], stencil.ref ?? 0, stencil.mask ?? 0xff);
+    gl.stencilOp(gl[stencil.fail ?? 'KEEP'], gl[stencil.depthFail ?? 'KEEP'], gl[stencil.pass ?? 'KEEP']);
+    gl.stencilMask(stencil.writeMask ?? 0xff);
+  } else {
+    gl.disable(gl.STENCIL_TEST);
+  }
+
+  const shouldClear = state.clear === 'always'
+    || (state.clear === 'auto' && (!overwrites || blend !== 'none' || !!depth || !!stencil));
+  if (!shouldClear) return;
+
+  let mask = gl.COLOR_BUFFER_BIT;
+  gl.clearColor(...state.clearColor);
+  if (depth) {
+    // Clearing depth respects the depth mask
+    gl.depthMask(true);
+    gl.clearDepth(1);
+    mask |= gl.DEPTH_BUFFER_BIT;
+  }
+  if (stencil) {
+    gl.stencilMask(0xff);
+    gl.clearStencil(0);
+    mask |= gl.STENCIL_BUFFER_BIT;
+  }
+  gl.clear(mask);
+  if (depth) gl.depthMask(depth.write ?? true);
+  if (stencil) gl.stencilMask(stencil.writeMask ?? 0xff);
+}
+
+/** Turns blending, depth and stencil off, e.g. for the offscreen passes. */
+export function resetRenderState(gl: WebGLRenderingContext | WebGL2RenderingContext): void {
+  gl.disable(gl.BLEND);
+  gl.disable(gl.DEPTH_TEST);
+  gl.disable(gl.STENCIL_TEST);
+}
+
+function getBlendEquation(gl: WebGLRenderingContext | WebGL2RenderingContext, equation: BlendEquation): number {
+  if (equation !== 'MIN' && equation !== 'MAX') return gl[equation];
+
+  const isWebGL2 = isWebGL2Context(gl);
+  if (!isWebGL2 && !gl.getExtension('EXT_blend_minmax')) {
+    console.warn(`[ShaderUp] Warning: '${equation}' blending needs WebGL2 or EXT_blend_minmax. Using 'FUNC_ADD'.`);
+    return gl.FUNC_ADD;
+  }
+  return equation === 'MIN' ? MIN : MAX;
+}
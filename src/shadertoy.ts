@@ -0,0 +1,124 @@
+/**
+ * Shadertoy compatibility: wraps a `mainImage(out vec4, in vec2)` source into a complete
+ * fragment shader and tracks the `i*` inputs with Shadertoy's semantics.
+ */
+
+export const SHADERTOY_CHANNELS = ['iChannel0', 'iChannel1', 'iChannel2', 'iChannel3'] as const;
+
+const UNIFORMS = `uniform vec3 iResolution;
+uniform float iTime;
+uniform float iTimeDelta;
+uniform float iFrameRate;
+uniform int iFrame;
+uniform vec4 iMouse;
+uniform vec4 iDate;
+uniform float iSampleRate;
+uniform float iChannelTime[4];
+uniform vec3 iChannelResolution[4];
+uniform sampler2D iChannel0;
+uniform sampler2D iChannel1;
+uniform sampler2D iChannel2;
+uniform sampler2D iChannel3;`;
+
+/**
+ * Returns the code placed before and after the user's source.
+ * WebGL2 gets GLSL ES 3.00 (what Shadertoy uses); WebGL1 gets a GLSL ES 1.00 approximation.
+ */
+export function getShadertoyWrapper(webgl2: boolean): { header: string; footer: string } {
+  if (webgl2) {
+    return {
+      header: `#version 300 es
+precision highp float;
+precision highp int;
+precision highp sampler2D;
+${UNIFORMS}
+out vec4 shadertoy_FragColor;`,
+      footer: `void main() {
+  vec4 color = vec4(0.0, 0.0, 0.0, 1.0);
+  mainImage(color, gl_FragCoord.xy);
+  shadertoy_FragColor = color;
+}`,
+    };
+  }
+
+  return {
+    header: `#extension GL_OES_standard_derivatives : enable
+precision highp float;
+precision highp int;
+${UNIFORMS}
+#define texture texture2D`,
+    footer: `void main() {
+  vec4 color = vec4(0.0, 0.0, 0.0, 1.0);
+  mainImage(color, gl_FragCoord.xy);
+  gl_FragColor = color;
+}`,
+  };
+}
+
+/**
+ * `iDate`: year, month (0-based), day, and seconds since midnight.
+ */
+export function getShadertoyDate(): [number, number, number, number] {
+  const now = new Date();
+  const seconds = now.getHours() * 3600 + now.getMinutes() * 60 + now.getSeconds() + now.getMilliseconds() / 1000;
+  return [now.getFullYear(), now.getMonth(), now.getDate(), seconds];
+}
+
+/**
+ * Tracks `iMouse` in drawing-buffer pixels with a bottom-left origin:
+ * - xy: current position while the button is down, last drag position otherwise
+ * - zw: click position. z is negative while the button is up, w is negative after the click frame
+ */
+export class ShadertoyMouse {
+  public readonly value: [number, number, number, number] = [0, 0, 0, 0];
+
+  private readonly canvas: HTMLCanvasElement;
+  private isDown = false;
+
+  constructor(canvas: HTMLCanvasElement) {
+    this.canvas = canvas;
+    canvas.addEventListener('pointerdown', this.handlePointerDown);
+    canvas.addEventListener('pointermove', this.handlePointerMove);
+    window.addEventListener('pointerup', this.handlePointerUp);
+  }
+
+  /** Call once per frame after rendering, so `w` is only positive on the click frame. */
+  public endFrame(): void {
+    this.value[3] = -Math.abs(this.value[3]);
+  }
+
+  public dispose(): void {
+    this.canvas.removeEventListener('pointerdown', this.handlePointerDown);
+    this.canvas.removeEventListener('pointermove', this.handlePointerMove);
+    window.removeEventListener('pointerup', this.handlePointerUp);
+  }
+
+  private toPixels(e: PointerEvent): [number, number] {
+    const rect = this.canvas.getBoundingClientRect();
+    const scaleX = rect.width > 0 ? this.canvas.width / rect.width : 1;
+    const scaleY = rect.height > 0 ? this.canvas.height / rect.height : 1;
+    return [(e.clientX - rect.left) * scaleX, this.canvas.height - (e.clientY - rect.top) * scaleY];
+  }
+
+  private handlePointerDown = (e: PointerEvent): void => {
+    const [x, y] = this.toPixels(e);
+    this.isDown = true;
+    this.value[0] = x;
+    this.value[1] = y;
+    this.value[2] = x;
+    this.value[3] = y;
+  };
+
+  private handlePointerMove = (e: PointerEvent): void => {
+    if (!this.isDown) return;
+    const [x, y] = this.toPixels(e);
+    this.value[0] = x;
+    this.value[1] = y;
+  };
+
+  private handlePointerUp = (): void => {
+    if (!this.isDown) return;
+    this.isDown = false;
+    this.value[2] = -Math.abs(this.value[2]);
+  };
+}
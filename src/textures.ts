@@ -0,0 +1,236 @@
+import { isWebGL2Context } from './context';
+
+export type TextureWrap = 'clamp' | 'repeat' | 'mirror';
+
+export type TextureFilter =
+  | 'nearest' | 'linear'
+  | 'nearest-mipmap-nearest' | 'linear-mipmap-nearest'
+  | 'nearest-mipmap-linear' | 'linear-mipmap-linear';
+
+/**
+ * Storage formats for data textures, named like their WebGL2 internal formats.
+ * 16F formats take a Float32Array or half floats in a Uint16Array. Integer formats (UI/I)
+ * are read with `usampler2D`/`isampler2D` and always use 'nearest' filtering.
+ */
+export type TextureFormat =
+  | 'R8' | 'RG8' | 'RGB8' | 'RGBA8'
+  | 'R16F' | 'RG16F' | 'RGBA16F'
+  | 'R32F' | 'RG32F' | 'RGBA32F'
+  | 'R8UI' | 'RG8UI' | 'RGBA8UI'
+  | 'R32UI' | 'R32I';
+
+/** Sampling and upload options for `setTexture` and `loadTexture`. */
+export interface TextureOptions {
+  /** Edge behavior, for both axes or as [s, t]. Defaults to 'clamp'. */
+  wrap?: TextureWrap | [TextureWrap, TextureWrap];
+  /** Filter when the texture is drawn smaller. Defaults to 'linear', or 'linear-mipmap-linear' with `mipmaps`. */
+  minFilter?: TextureFilter;
+  /** Filter when the texture is drawn larger. Defaults to 'linear'. */
+  magFilter?: 'nearest' | 'linear';
+  /** Generates mipmaps after each upload. WebGL1 needs power-of-two sizes. Defaults to false. */
+  mipmaps?: boolean;
+  /** Anisotropic filtering level, e.g. 8, for textures viewed at grazing angles. Clamped to the device maximum. */
+  anisotropy?: number;
+  /**
+   * Flips the rows vertically on upload. Defaults to true for images, videos and canvases with `shadertoy`,
+   * false otherwise; data textures keep their row order unless set.
+   */
+  flipY?: boolean;
+  /** Multiplies color by alpha on upload. Defaults to false. */
+  premultiplyAlpha?: boolean;
+  /**
+   * How image colors are stored:
+   * - 'srgb': as sRGB, decoded to linear values when sampled (WebGL2)
+   * - 'linear': as-is, the default
+   * - 'none': as-is, and skips the browser's color profile conversion on upload
+   */
+  colorSpace?: 'srgb' | 'linear' | 'none';
+}
+
+/** Raw texel data, e.g. a lookup table or simulation state. */
+export interface DataTexture {
+  /** Texels, row by row from the bottom. `null` allocates an empty texture. */
+  data: ArrayBufferView | null;
+  width: number;
+  height: number;
+  /** Defaults to 'RGBA8'. Formats other than 'RGBA8' and 'RGB8' need WebGL2. */
+  format?: TextureFormat;
+}
+
+type FormatInfo = readonly [
+  internalFormat: keyof WebGL2RenderingContext,
+  format: 'RED' | 'RG' | 'RGB' | 'RGBA' | 'RED_INTEGER' | 'RG_INTEGER' | 'RGBA_INTEGER',
+  type: 'UNSIGNED_BYTE' | 'HALF_FLOAT' | 'FLOAT' | 'UNSIGNED_INT' | 'INT',
+];
+
+const TEXTURE_FORMATS: { [format in TextureFormat]: FormatInfo } = {
+  R8: ['R8', 'RED', 'UNSIGNED_BYTE'],
+  RG8: ['RG8', 'RG', 'UNSIGNED_BYTE'],
+  RGB8: ['RGB8', 'RGB', 'UNSIGNED_BYTE'],
+  RGBA8: ['RGBA8', 'RGBA', 'UNSIGNED_BYTE'],
+  R16F: ['R16F', 'RED', 'HALF_FLOAT'],
+  RG16F: ['RG16F', 'RG', 'HALF_FLOAT'],
+  RGBA16F: ['RGBA16F', 'RGBA', 'HALF_FLOAT'],
+  R32F: ['R32F', 'RED', 'FLOAT'],
+  RG32F: ['RG32F', 'RG', 'FLOAT'],
+  RGBA32F: ['RGBA32F', 'RGBA', 'FLOAT'],
+  R8UI: ['R8UI', 'RED_INTEGER', 'UNSIGNED_BYTE'],
+  RG8UI: ['RG8UI', 'RG_INTEGER', 'UNSIGNED_BYTE'],
+  RGBA8UI: ['RGBA8UI', 'RGBA_INTEGER', 'UNSIGNED_BYTE'],
+  R32UI: ['R32UI', 'RED_INTEGER', 'UNSIGNED_INT'],
+  R32I: ['R32I', 'RED_INTEGER', 'INT'],
+};
+
+const WRAP_MODES = { clamp: 'CLAMP_TO_EDGE', repeat: 'REPEAT', mirror: 'MIRRORED_REPEAT' } as const;
+
+const FILTERS = {
+  'nearest': 'NEAREST',
+  'linear': 'LINEAR',
+  'nearest-mipmap-nearest': 'NEAREST_MIPMAP_NEAREST',
+  'linear-mipmap-nearest': 'LINEAR_MIPMAP_NEAREST',
+  'nearest-mipmap-linear': 'NEAREST_MIPMAP_LINEAR',
+  'linear-mipmap-linear': 'LINEAR_MIPMAP_LINEAR',
+} as const;
+
+// From EXT_texture_filter_anisotropic
+const TEXTURE_MAX_ANISOTROPY = 0x84FE;
+const MAX_TEXTURE_MAX_ANISOTROPY = 0x84FF;
+
+export function isDataTexture(source: TexImageSource | DataTexture): source is DataTexture {
+  // ImageData has `data` too, but uploads as an image
+  if (typeof ImageData !== 'undefined' && source instanceof ImageData) return false;
+  return 'data' in source;
+}
+
+/**
+ * Uploads an image or data texture into `texture` and applies the sampling options.
+ * Leaves the pixel store state at its defaults.
+ * @param size The texture size in pixels, for the WebGL1 mipmap check.
+ * @param defaultFlipY `flipY` for image sources when the options don't set it. Data textures default to false.
+ * @returns Whether the upload happened; unsupported formats are skipped with a warning.
+ */
+export function uploadTexture(
+  gl: WebGLRenderingContext | WebGL2RenderingContext,
+  texture: WebGLTexture,
+  source: TexImageSource | DataTexture,
+  options: TextureOptions,
+  size: [number, number],
+  defaultFlipY: boolean
+): boolean {
+  const isWebGL2 = isWebGL2Context(gl);
+  const format = isDataTexture(source) ? source.format ?? 'RGBA8' : null;
+  if (format && !isWebGL2 && format !== 'RGBA8' && format !== 'RGB8') {
+    console.warn(`[ShaderUp] Warning: '${format}' textures need WebGL2.`);
+    return false;
+  }
+  if (options.colorSpace === 'srgb' && !isWebGL2) {
+    console.warn("[ShaderUp] Warning: 'srgb' textures need WebGL2. Storing as 'linear'.");
+  }
+
+  gl.bindTexture(gl.TEXTURE_2D, texture);
+  gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, options.flipY ?? (isDataTexture(source) ? false : defaultFlipY));
+  gl.pixelStorei(gl.UNPACK_PREMULTIPLY_ALPHA_WEBGL, options.premultiplyAlpha ?? false);
+  if (options.colorSpace === 'none') gl.pixelStorei(gl.UNPACK_COLORSPACE_CONVERSION_WEBGL, gl.NONE);
+
+  let isFilterable = true;
+  if (isDataTexture(source)) {
+    const [internalFormat, dataFormat, defaultType] = TEXTURE_FORMATS[format!];
+    // Rows of 1-3 byte texels are not 4-byte aligned
+    gl.pixelStorei(gl.UNPACK_ALIGNMENT, 1);
+    if (isWebGL2) {
+      // Half float formats can be filled from 32-bit floats too
+      const type = defaultType === 'HALF_FLOAT' && source.data instanceof Float32Array ? 'FLOAT' : defaultType;
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl[internalFormat] as number, source.width, source.height, 0, gl[dataFormat], gl[type], source.data);
+      isFilterable = !dataFormat.endsWith('_INTEGER')
+        && (defaultType !== 'FLOAT' || !!gl.getExtension('OES_texture_float_linear'));
+    } else {
+      const dataFormat1 = format === 'RGB8' ? gl.RGB : gl.RGBA;
+      gl.texImage2D(gl.TEXTURE_2D, 0, dataFormat1, source.width, source.height, 0, dataFormat1, gl.UNSIGNED_BYTE, source.data);
+    }
+    gl.pixelStorei(gl.UNPACK_ALIGNMENT, 4);
+  } else if (options.colorSpace === 'srgb' && isWebGL2) {
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.SRGB8_ALPHA8, gl.RGBA, gl.UNSIGNED_BYTE, source);
+  } else {
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, source);
+  }
+
+  gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, false);
+  gl.pixelStorei(gl.UNPACK_PREMULTIPLY_ALPHA_WEBGL, false);
+  gl.pixelStorei(gl.UNPACK_COLORSPACE_CONVERSION_WEBGL, gl.BROWSER_DEFAULT_WEBGL);
+
+  applySampling(gl, size, options, isWebGL2, isFilterable);
+  gl.bindTexture(gl.TEXTURE_2D, null);
+  return true;
+}
+
+/**
+ * Replaces the texels of an image texture uploaded by `uploadTexture` with the same size,
+ * e.g. a new video frame, without reallocating its storage or resetting its sampling.
+ * @param size The texture size in pixels, which must match the source.
+ * @param defaultFlipY `flipY` when the options don't set it.
+ */
+export function updateTexture(
+  gl: WebGLRenderingContext | WebGL2RenderingContext,
+  texture: WebGLTexture,
+  source: TexImageSource,
+  options: TextureOptions,
+  [width, height]: [number, number],
+  defaultFlipY: boolean
+): void {
+  gl.bindTexture(gl.TEXTURE_2D, texture);
+  gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, options.flipY ?? defaultFlipY);
+  gl.pixelStorei(gl.UNPACK_PREMULTIPLY_ALPHA_WEBGL, options.premultiplyAlpha ?? false);
+  if (options.colorSpace === 'none') gl.pixelStorei(gl.UNPACK_COLORSPACE_CONVERSION_WEBGL, gl.NONE);
+
+  gl.texSubImage2D(gl.TEXTURE_2D, 0, 0, 0, gl.RGBA, gl.UNSIGNED_BYTE, source);
+
+  gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, false);
+  gl.pixelStorei(gl.UNPACK_PREMULTIPLY_ALPHA_WEBGL, false);
+  gl.pixelStorei(gl.UNPACK_COLORSPACE_CONVERSION_WEBGL, gl.BROWSER_DEFAULT_WEBGL);
+
+  // Same check as `applySampling`, which already warned about it
+  if (options.mipmaps && (isWebGL2Context(gl) || (isPowerOfTwo(width) && isPowerOfTwo(height)))) {
+    gl.generateMipmap(gl.TEXTURE_2D);
+  }
+  gl.bindTexture(gl.TEXTURE_2D, null);
+}
+
+/** Sets wrap, filters and anisotropy of the bound texture, and builds its mipmaps. */
+function applySampling(
+  gl: WebGLRenderingContext | WebGL2RenderingContext,
+  [width, height]: [number, number],
+  options: TextureOptions,
+  isWebGL2: boolean,
+  isFilterable: boolean
+): void {
+  let mipmaps = !!options.mipmaps && isFilterable;
+  if (mipmaps && !isWebGL2 && !(isPowerOfTwo(width) && isPowerOfTwo(height))) {
+    console.warn("[ShaderUp] Warning: WebGL1 can only build mipmaps for power-of-two textures.");
+    mipmaps = false;
+  }
+
+  const [wrapS, wrapT] = Array.isArray(options.wrap) ? options.wrap : [options.wrap ?? 'clamp', options.wrap ?? 'clamp'];
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl[WRAP_MODES[wrapS]]);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl[WRAP_MODES[wrapT]]);
+
+  // Unfilterable formats (integer, or 32-bit float without OES_texture_float_linear) only sample with NEAREST
+  let minFilter = options.minFilter ?? (mipmaps ? 'linear-mipmap-linear' : 'linear');
+  if (!mipmaps && minFilter.includes('mipmap')) minFilter = minFilter.startsWith('linear') ? 'linear' : 'nearest';
+  const magFilter = options.magFilter ?? 'linear';
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, isFilterable ? gl[FILTERS[minFilter]] : gl.NEAREST);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, isFilterable ? gl[FILTERS[magFilter]] : gl.NEAREST);
+
+  if (options.anisotropy && options.anisotropy > 1 && isFilterable) {
+    const extension = gl.getExtension('EXT_texture_filter_anisotropic');
+    if (extension) {
+      const max = gl.getParameter(MAX_TEXTURE_MAX_ANISOTROPY) as number;
+      gl.texParameterf(gl.TEXTURE_2D, TEXTURE_MAX_ANISOTROPY, Math.min(options.anisotropy, max));
+    }
+  }
+
+  if (mipmaps) gl.generateMipmap(gl.TEXTURE_2D);
+}
+
+function isPowerOfTwo(value: number): boolean {
+  return value > 0 && (value & (value - 1)) === 0;
+}
@@ -0,0 +1,198 @@
+export type UniformType =
+  | 'float' | 'vec2' | 'vec3' | 'vec4'
+  | 'int' | 'ivec2' | 'ivec3' | 'ivec4'
+  | 'uint' | 'uvec2' | 'uvec3' | 'uvec4'
+  | 'bool' | 'bvec2' | 'bvec3' | 'bvec4'
+  | 'mat2' | 'mat3' | 'mat4'
+  | 'mat2x3' | 'mat2x4' | 'mat3x2' | 'mat3x4' | 'mat4x2' | 'mat4x3'
+  | 'sampler2D' | 'samplerCube' | 'sampler3D' | 'sampler2DArray';
+
+export type SamplerType = 'sampler2D' | 'samplerCube' | 'sampler3D' | 'sampler2DArray';
+
+/**
+ * GL enums for the types reported by `getActiveUniform`.
+ * Spelled out because WebGL1 contexts do not expose the WebGL2-only constants.
+ * Integer and shadow samplers bind like their float counterparts, so they share a type.
+ */
+const GL_UNIFORM_TYPES: { [glType: number]: UniformType } = {
+  0x1406: 'float', 0x8B50: 'vec2', 0x8B51: 'vec3', 0x8B52: 'vec4',
+  0x1404: 'int', 0x8B53: 'ivec2', 0x8B54: 'ivec3', 0x8B55: 'ivec4',
+  0x1405: 'uint', 0x8DC6: 'uvec2', 0x8DC7: 'uvec3', 0x8DC8: 'uvec4',
+  0x8B56: 'bool', 0x8B57: 'bvec2', 0x8B58: 'bvec3', 0x8B59: 'bvec4',
+  0x8B5A: 'mat2', 0x8B5B: 'mat3', 0x8B5C: 'mat4',
+  0x8B65: 'mat2x3', 0x8B66: 'mat2x4', 0x8B67: 'mat3x2', 0x8B68: 'mat3x4', 0x8B69: 'mat4x2', 0x8B6A: 'mat4x3',
+  // sampler2D, sampler2DShadow, isampler2D, usampler2D
+  0x8B5E: 'sampler2D', 0x8B62: 'sampler2D', 0x8DCA: 'sampler2D', 0x8DD2: 'sampler2D',
+  // samplerCube, samplerCubeShadow, isamplerCube, usamplerCube
+  0x8B60: 'samplerCube', 0x8DC5: 'samplerCube', 0x8DCC: 'samplerCube', 0x8DD4: 'samplerCube',
+  // sampler3D, isampler3D, usampler3D
+  0x8B5F: 'sampler3D', 0x8DCB: 'sampler3D', 0x8DD3: 'sampler3D',
+  // sampler2DArray, sampler2DArrayShadow, isampler2DArray, usampler2DArray
+  0x8DC1: 'sampler2DArray', 0x8DC4: 'sampler2DArray', 0x8DCF: 'sampler2DArray', 0x8DD7: 'sampler2DArray',
+};
+
+/** Texture bind targets per sampler type (WebGL enum values). */
+const SAMPLER_TARGETS: { [type in SamplerType]: number } = {
+  sampler2D: 0x0DE1,      // TEXTURE_2D
+  samplerCube: 0x8513,    // TEXTURE_CUBE_MAP
+  sampler3D: 0x806F,      // TEXTURE_3D
+  sampler2DArray: 0x8C1A, // TEXTURE_2D_ARRAY
+};
+
+/** Number of scalar components per non-sampler uniform type. */
+const COMPONENTS: { [type in Exclude<UniformType, SamplerType>]: number } = {
+  float: 1, vec2: 2, vec3: 3, vec4: 4,
+  int: 1, ivec2: 2, ivec3: 3, ivec4: 4,
+  uint: 1, uvec2: 2, uvec3: 3, uvec4: 4,
+  bool: 1, bvec2: 2, bvec3: 3, bvec4: 4,
+  mat2: 4, mat3: 9, mat4: 16,
+  mat2x3: 6, mat2x4: 8, mat3x2: 6, mat3x4: 12, mat4x2: 8, mat4x3: 12,
+};
+
+/** A uniform discovered through `getActiveUniform`. */
+export interface ActiveUniform {
+  /** The name without a trailing `[0]`, e.g. `u_lights[1].color` or `u_weights`. */
+  name: string;
+  type: UniformType;
+  /** Array length, 1 for non-arrays. */
+  size: number;
+  location: WebGLUniformLocation;
+}
+
+/**
+ * Lists all active uniforms of a linked program.
+ * Struct members are reported individually, with their full access path as the name.
+ */
+export function reflectUniforms(gl: WebGLRenderingContext | WebGL2RenderingContext, program: WebGLProgram): ActiveUniform[] {
+  const uniforms: ActiveUniform[] = [];
+  const count = gl.getProgramParameter(program, gl.ACTIVE_UNIFORMS) as number;
+
+  for (let i = 0; i < count; i++) {
+    const active = gl.getActiveUniform(program, i);
+    if (!active) continue;
+
+    // Uniforms inside uniform blocks have no location and are not handled here
+    const location = gl.getUniformLocation(program, active.name);
+    if (!location) continue;
+
+    const type = GL_UNIFORM_TYPES[active.type];
+    if (!type) {
+      console.warn(`[ShaderUp] Uniform "${active.name}" has an unsupported type (0x${active.type.toString(16)}).`);
+      continue;
+    }
+
+    uniforms.push({ name: active.name.replace(/\[0\]$/, ''), type, size: active.size, location });
+  }
+
+  return uniforms;
+}
+
+export function isSamplerType(type: UniformType): type is SamplerType {
+  return type in SAMPLER_TARGETS;
+}
+
+export function getSamplerTarget(type: SamplerType): number {
+  return SAMPLER_TARGETS[type];
+}
+
+/**
+ * Splits a uniform name into the path used to read its value from a nested object.
+ * @example parseUniformPath('u_lights[1].color') // ['u_lights', 1, 'color']
+ */
+export function parseUniformPath(name: string): (string | number)[] {
+  const path: (string | number)[] = [];
+  for (const part of name.split('.')) {
+    const match = /^([^[]+)((?:\[\d+\])*)$/.exec(part);
+    if (!match) {
+      path.push(part);
+      continue;
+    }
+    path.push(match[1]);
+    for (const index of match[2].matchAll(/\[(\d+)\]/g)) {
+      path.push(Number(index[1]));
+    }
+  }
+  return path;
+}
+
+export function getDefaultUniformValue(type: UniformType, size = 1): any {
+  if (isSamplerType(type)) return null;
+  const components = COMPONENTS[type];
+  if (size === 1 && components === 1) {
+    return type === 'bool' ? false : 0;
+  }
+  return new Array(components * size).fill(0);
+}
+
+/**
+ * Uploads a uniform value with the `uniform*` call matching its type.
+ * Vectors, matrices and arrays accept flat or nested arrays and typed arrays.
+ * Samplers are bound by the caller.
+ */
+export function uploadUniform(
+  gl: WebGLRenderingContext | WebGL2RenderingContext,
+  location: WebGLUniformLocation,
+  type: UniformType,
+  value: any
+): void {
+  const gl2 = gl as WebGL2RenderingContext;
+
+  switch (type) {
+    case 'float':
+      if (typeof value === 'number') gl.uniform1f(location, value);
+      else gl.uniform1fv(location, flatten(value));
+      break;
+    case 'vec2': gl.uniform2fv(location, flatten(value)); break;
+    case 'vec3': gl.uniform3fv(location, flatten(value)); break;
+    case 'vec4': gl.uniform4fv(location, flatten(value)); break;
+
+    case 'int':
+    case 'bool':
+      if (typeof value === 'number' || typeof value === 'boolean') gl.uniform1i(location, Number(value));
+      else gl.uniform1iv(location, flatten(value));
+      break;
+    case 'ivec2': case 'bvec2': gl.uniform2iv(location, flatten(value)); break;
+    case 'ivec3': case 'bvec3': gl.uniform3iv(location, flatten(value)); break;
+    case 'ivec4': case 'bvec4': gl.uniform4iv(location, flatten(value)); break;
+
+    case 'uint':
+      if (typeof value === 'number') gl2.uniform1ui(location, value);
+      else gl2.uniform1uiv(location, flatten(value));
+      break;
+    case 'uvec2': gl2.uniform2uiv(location, flatten(value)); break;
+    case 'uvec3': gl2.uniform3uiv(location, flatten(value)); break;
+    case 'uvec4': gl2.uniform4uiv(location, flatten(value)); break;
+
+    case 'mat2': gl.uniformMatrix2fv(location, false, flatten(value)); break;
+    case 'mat3': gl.uniformMatrix3fv(location, false, flatten(value)); break;
+    case 'mat4': gl.uniformMatrix4fv(location, false, flatten(value)); break;
+    case 'mat2x3': gl2.uniformMatrix2x3fv(location, false, flatten(value)); break;
+    case 'mat2x4': gl2.uniformMatrix2x4fv(location, false, flatten(value)); break;
+    case 'mat3x2': gl2.uniformMatrix3x2fv(location, false, flatten(value)); break;
+    case 'mat3x4': gl2.uniformMatrix3x4fv(location, false, flatten(value)); break;
+    case 'mat4x2': gl2.uniformMatrix4x2fv(location, false, flatten(value)); break;
+    case 'mat4x3': gl2.uniformMatrix4x3fv(location, false, flatten(value)); break;
+  }
+}
+
+/** Flattens nested arrays (e.g. an array of vec3s) and converts booleans to numbers. */
+function flatten(value: any): number[] {
+  if (ArrayBuffer.isView(value)) return value as unknown as number[];
+  if (!Array.isArray(value)) return [Number(value)];
+
+  let nested = false;
+  for (const item of value) {
+    if (typeof item !== 'number') {
+      nested = true;
+      break;
+    }
+  }
+  if (!nested) return value;
+
+  const out: number[] = [];
+  for (const item of value) {
+    if (typeof item === 'number' || typeof item === 'boolean') out.push(Number(item));
+    else for (const v of flatten(item)) out.push(v);
+  }
+  return out;
+}
@@ -0,0 +1,83 @@
+/**
+ * Worker entry point for `ShaderUp.inWorker()`. A worker script only needs to import it:
+ * @example
+ * // shader.worker.js
+ * import 'shaderup/worker';
+ */
+import { ShaderUp } from './ShaderUp';
+import type { FromWorkerMessage, ToWorkerMessage } from './workerMessages';
+
+/** The parts of the worker global scope used here; the DOM lib types `self` as a window. */
+interface WorkerScope {
+  postMessage(message: FromWorkerMessage): void;
+  addEventListener(type: 'message', listener: (event: MessageEvent<ToWorkerMessage>) => void): void;
+}
+
+const scope = globalThis as unknown as WorkerScope;
+let shader: ShaderUp | null = null;
+
+function postError(error: unknown, isShaderError = false): void {
+  const { name, message } = error instanceof Error ? error : new Error(String(error));
+  scope.postMessage({ type: 'error', name, message, isShaderError });
+}
+
+function handleMessage(message: ToWorkerMessage): void {
+  if (message.type === 'init') {
+    shader?.dispose();
+    shader = null;
+    shader = new ShaderUp({
+      ...message.options,
+      canvas: message.canvas,
+      onResize: (width, height) => scope.postMessage({ type: 'resize', width, height }),
+      onContextLost: () => scope.postMessage({ type: 'contextlost' }),
+      onContextRestored: () => scope.postMessage({ type: 'contextrestored' }),
+      onShaderError: error => postError(error, true),
+    });
+    shader.setCanvasSize(...message.size, message.devicePixelRatio);
+    return;
+  }
+
+  // Messages after a failed init have nothing to act on; the init error was already reported
+  if (!shader) return;
+
+  switch (message.type) {
+    case 'resize':
+      shader.setCanvasSize(...message.size, message.devicePixelRatio);
+      break;
+    case 'uniforms':
+      Object.assign(shader.uniforms, message.values);
+      break;
+    case 'texture':
+      shader.setTexture(message.name, message.source, message.options);
+      break;
+    case 'call': {
+      const { id, args } = message;
+      const method = (shader[message.method] as (...args: unknown[]) => unknown).bind(shader);
+      if (id === undefined) {
+        method(...args);
+        break;
+      }
+      // Calls awaited by the proxy answer with their result, or their error (thrown or rejected)
+      new Promise(resolve => resolve(method(...args))).then(
+        value => scope.postMessage({ type: 'result', id, value }),
+        (error: unknown) => {
+          const { name, message } = error instanceof Error ? error : new Error(String(error));
+          scope.postMessage({ type: 'result', id, error: { name, message } });
+        }
+      );
+      break;
+    }
+    case 'dispose':
+      shader.dispose();
+      shader = null;
+      break;
+  }
+}
+
+scope.addEventListener('message', event => {
+  try {
+    handleMessage(event.data);
+  } catch (error) {
+    postError(error);
+  }
+});
@@ -0,0 +1,50 @@
+import type { ShaderUpOptions } from './ShaderUp';
+import type { DataTexture, TextureOptions } from './textures';
+
+/**
+ * The options a worker instance is created with. Functions cannot be sent to a worker,
+ * so `onResize`, `onContextLost`, `onContextRestored` and `onShaderError` are relayed back instead,
+ * pointer `input` needs the page's events, and the worker creates its own `context`.
+ */
+export type WorkerShaderOptions = Omit<
+  ShaderUpOptions,
+  | 'canvas' | 'canvasId' | 'context' | 'renderer' | 'input'
+  | 'onResize' | 'onBeforeRender' | 'onContextLost' | 'onContextRestored' | 'onShaderError'
+>;
+
+/** Methods of the worker's instance that the proxy can call, with their arguments. */
+export interface WorkerCalls {
+  start: [];
+  stop: [];
+  pause: [];
+  resume: [];
+  seek: [time: number];
+  invalidate: [];
+  renderFrame: [time?: number];
+  setShaders: [shaders: { fragmentShader?: string; vertexShader?: string }, pass?: string];
+  setData: [data: BufferSource];
+  updateData: [offset: number, data: BufferSource];
+  setInstanceCount: [count: number];
+}
+
+export type WorkerMethod = keyof WorkerCalls;
+
+/** A call of one method. With an `id`, the worker answers with a 'result' message. */
+type WorkerCall = { [M in WorkerMethod]: { type: 'call'; method: M; args: WorkerCalls[M]; id?: number } }[WorkerMethod];
+
+/** Messages from the proxy to the worker. */
+export type ToWorkerMessage =
+  | { type: 'init'; canvas: OffscreenCanvas; options: WorkerShaderOptions; size: [number, number]; devicePixelRatio: number }
+  | { type: 'resize'; size: [number, number]; devicePixelRatio: number }
+  | { type: 'uniforms'; values: { [name: string]: any } }
+  | { type: 'texture'; name: string; source: ImageBitmap | DataTexture; options: TextureOptions }
+  | WorkerCall
+  | { type: 'dispose' };
+
+/** Messages from the worker to the proxy. */
+export type FromWorkerMessage =
+  | { type: 'error'; name: string; message: string; isShaderError: boolean }
+  | { type: 'result'; id: number; value?: unknown; error?: { name: string; message: string } }
+  | { type: 'resize'; width: number; height: number }
+  | { type: 'contextlost' }
+  | { type: 'contextrestored' };
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { Clock } from '../src/Clock';
+
+describe('Clock', () => {
+  it('holds the first tick and then advances by real time', () => {
+    const clock = new Clock();
+    clock.tick(1000);
+    expect(clock).toMatchObject({ time: 0, delta: 0, frame: 0 });
+
+    clock.tick(1500);
+    expect(clock).toMatchObject({ time: 0.5, delta: 0.5, frame: 1 });
+  });
+
+  it('stands still while paused', () => {
+    const clock = new Clock();
+    clock.tick(0);
+    clock.tick(100);
+    clock.pause();
+    clock.tick(2000);
+    expect(clock).toMatchObject({ time: 0.1, delta: 0, frame: 1, isPaused: true });
+
+    clock.resume();
+    clock.tick(2250);
+    expect(clock.time).toBeCloseTo(0.35);
+    expect(clock.frame).toBe(2);
+  });
+
+  it('renders the frame after a seek exactly at the seeked time', () => {
+    const clock = new Clock();
+    clock.tick(0);
+    clock.tick(500);
+    clock.seek(10);
+    clock.tick(1000);
+    expect(clock).toMatchObject({ time: 10, delta: 0 });
+
+    clock.tick(1250);
+    expect(clock.time).toBe(10.25);
+
+    clock.seek(2);
+    clock.tick(1500);
+    clock.tick(1750);
+    expect(clock.time).toBe(2.25);
+  });
+
+  it('advances by the fixed timestep regardless of real time', () => {
+    const clock = new Clock({ fixedTimestep: 1 / 60, playbackRate: 2 });
+    clock.tick(0);
+    clock.tick(5);
+    clock.tick(1000);
+    expect(clock.delta).toBe(1 / 30);
+    expect(clock.time).toBeCloseTo(2 / 30);
+    expect(clock.frame).toBe(2);
+  });
+
+  it('does not count time spent stopped after resetOrigin()', () => {
+    const clock = new Clock();
+    clock.tick(0);
+    clock.tick(100);
+    clock.resetOrigin();
+    clock.tick(60000);
+    clock.tick(60100);
+    expect(clock.time).toBeCloseTo(0.2);
+  });
+
+  it('rewinds time and frames on reset()', () => {
+    const clock = new Clock();
+    clock.tick(0);
+    clock.tick(100);
+    clock.reset();
+    expect(clock).toMatchObject({ time: 0, delta: 0, frame: 0 });
+    clock.tick(5000);
+    expect(clock.time).toBe(0);
+  });
+});
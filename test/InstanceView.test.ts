@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { createInstanceLayout } from '../src/attributes';
+import { InstanceView } from '../src/InstanceView';
+
+describe('InstanceView', () => {
+  it('round-trips half floats', () => {
+    const view = new InstanceView(createInstanceLayout({ a_value: { size: 4, type: 'HALF_FLOAT' } }), 2);
+
+    view.set(0, 'a_value', [0.5, -2, 65504, 2 ** -24]);
+    expect(view.read(0, 'a_value')).toEqual([0.5, -2, 65504, 2 ** -24]);
+
+    view.set(1, 'a_value', [0.1, 1e6, -1e6, 2 ** -26]);
+    const [rounded, large, small, tiny] = view.read(1, 'a_value') as number[];
+    expect(rounded).toBeCloseTo(0.1, 3);
+    expect(large).toBe(Infinity);
+    expect(small).toBe(-Infinity);
+    expect(tiny).toBe(0);
+  });
+
+  it('writes half floats as little-endian IEEE 754 bits', () => {
+    const view = new InstanceView(createInstanceLayout({ a_value: { size: 2, type: 'HALF_FLOAT' } }), 1);
+    view.set(0, 'a_value', [1, -0.5]);
+    expect(Array.from(new Uint16Array(view.buffer))).toEqual([0x3C00, 0xB800]);
+  });
+
+  it('round-trips normalized integers as the shader reads them', () => {
+    const view = new InstanceView(createInstanceLayout({
+      a_color: { size: 4, type: 'UNSIGNED_BYTE', normalized: true },
+      a_direction: { size: 2, type: 'SHORT', normalized: true },
+      a_signed: { size: 2, type: 'BYTE', normalized: true },
+    }), 1);
+
+    view.set(0, 'a_color', [1, 0.5, 0, 2]);
+    expect(Array.from(new Uint8Array(view.buffer, 0, 4))).toEqual([255, 128, 0, 255]);
+    expect(view.read(0, 'a_color')).toEqual([1, 128 / 255, 0, 1]);
+
+    view.set(0, 'a_direction', [-0.5, -3]);
+    const [half, clamped] = view.read(0, 'a_direction') as number[];
+    expect(half).toBeCloseTo(-0.5, 4);
+    expect(clamped).toBe(-1);
+
+    new Int8Array(view.buffer, 8, 2).set([-128, 127]);
+    expect(view.read(0, 'a_signed')).toEqual([-1, 1]);
+  });
+
+  it('keeps unnormalized integers as they are', () => {
+    const view = new InstanceView(createInstanceLayout({ a_id: { size: 1, type: 'UNSIGNED_INT' } }), 1);
+    view.set(0, 'a_id', 4000000000);
+    expect(view.read(0, 'a_id')).toBe(4000000000);
+  });
+
+  it('reads and writes through records, and tracks what was written', () => {
+    const view = new InstanceView(createInstanceLayout({ a_offset: { size: 2 }, a_scale: { size: 1 } }), 4);
+    const record = view.get(2);
+
+    record.a_offset = [1, 2];
+    record.a_scale = 3;
+    expect(record).toEqual({ a_offset: [1, 2], a_scale: 3 });
+    expect(view.dirtyRange).toEqual([2, 3]);
+
+    view.clearDirty();
+    expect(view.isDirty).toBe(false);
+    expect(() => view.set(4, 'a_scale', 1)).toThrow(RangeError);
+  });
+});
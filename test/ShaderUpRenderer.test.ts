@@ -0,0 +1,42 @@
+// @vitest-environment happy-dom
+import { describe, expect, it } from 'vitest';
+import { createRecordingContext, ShaderUpRenderer, type RendererView } from '../src/index';
+
+/** A canvas whose WebGL context is a recording one, with a fixed layout. */
+function createCanvas(rect: DOMRect): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  const gl = createRecordingContext();
+  canvas.getContext = (() => gl) as unknown as HTMLCanvasElement['getContext'];
+  canvas.getBoundingClientRect = () => rect;
+  return canvas;
+}
+
+describe('ShaderUpRenderer', () => {
+  it("sizes 'overlay' regions with the overlay's pixel ratio", () => {
+    const canvas = createCanvas(new DOMRect(0, 0, 400, 200));
+    const renderer = new ShaderUpRenderer({ mode: 'overlay', canvas, pixelRatio: 2 });
+    const view: RendererView = { canvas: createCanvas(new DOMRect(10, 20, 100, 50)), invalidate: () => {} };
+
+    // The view itself renders at a pixel ratio of 1
+    const region = renderer.beginView(view, [100, 50]);
+    renderer.endView(view, region);
+    expect(region).toEqual([20, 260, 200, 100]);
+    renderer.dispose();
+  });
+
+  it("shrinks the 'blit' canvas when the largest view goes away", () => {
+    const renderer = new ShaderUpRenderer({ canvas: createCanvas(new DOMRect(0, 0, 0, 0)) });
+    const small: RendererView = { canvas: createCanvas(new DOMRect(0, 0, 100, 50)), invalidate: () => {} };
+    const large: RendererView = { canvas: createCanvas(new DOMRect(0, 0, 300, 200)), invalidate: () => {} };
+    renderer.addView(small);
+    renderer.addView(large);
+
+    renderer.beginView(small, [100, 50]);
+    renderer.beginView(large, [300, 200]);
+    expect([renderer.canvas.width, renderer.canvas.height]).toEqual([300, 200]);
+
+    renderer.removeView(large);
+    expect([renderer.canvas.width, renderer.canvas.height]).toEqual([100, 50]);
+    renderer.dispose();
+  });
+});
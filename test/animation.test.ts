@@ -0,0 +1,145 @@
+import { describe, expect, it } from 'vitest';
+import { Animator } from '../src/Animator';
+import { createRecordingContext, ShaderUp } from '../src/index';
+
+describe('Animator', () => {
+  it('tweens from the first step with easing and delay', async () => {
+    const animator = new Animator<string>(() => {});
+    const handle = animator.tween('u', [0, 10], [1, 20], { duration: 2, easing: 'ease-in', delay: 1 });
+
+    expect(animator.update(5, 0).get('u')).toEqual([0, 10]);
+    expect(animator.update(6, 1).get('u')).toEqual([0, 10]);
+    expect(animator.update(7, 1).get('u')).toEqual([0.125, 11.25]);
+    expect(animator.update(8, 1).get('u')).toEqual([1, 20]);
+    expect(await handle.finished).toBe(true);
+    expect(animator.update(9, 1).size).toBe(0);
+  });
+
+  it('tweens from the target shape when the start value does not match', () => {
+    const animator = new Animator<string>(() => {});
+    animator.tween('u', undefined, 2, { duration: 1, easing: 'linear' });
+    expect(animator.update(0, 0).get('u')).toBe(2);
+  });
+
+  it('settles when replaced or cancelled', async () => {
+    const animator = new Animator<string>(() => {});
+    const first = animator.tween('u', 0, 1);
+    const second = animator.tween('u', 0, 2);
+    second.cancel();
+
+    expect(await first.finished).toBe(false);
+    expect(await second.finished).toBe(false);
+    expect(animator.update(0, 0).size).toBe(0);
+  });
+
+  it('springs to rest at the target and stays bound for retargeting', async () => {
+    const animator = new Animator<string>(() => {});
+    const handle = animator.spring('u', 0, 1, { stiffness: 300, damping: 20 });
+
+    let value = 0;
+    let peak = 0;
+    for (let frame = 1; frame <= 120; frame++) {
+      value = (animator.update(frame / 60, 1 / 60).get('u') as number | undefined) ?? value;
+      peak = Math.max(peak, value);
+    }
+    expect(value).toBe(1);
+    expect(peak).toBeGreaterThan(1);
+    expect(await handle.finished).toBe(true);
+
+    expect(animator.retarget('u', 0)).toBe(true);
+    expect(animator.update(3, 1 / 60).get('u')).toBeLessThan(1);
+  });
+
+  it('keeps the velocity of a spring it replaces', () => {
+    const animator = new Animator<string>(() => {});
+    animator.spring('u', 0, 1);
+    animator.update(0.1, 0.1);
+    const moving = animator.get('u')![0];
+
+    animator.spring('u', moving, 1, { damping: 40 });
+    const next = animator.update(0.2, 1 / 240).get('u') as number;
+    expect(next).toBeGreaterThan(moving);
+  });
+
+  it('plays keyframes with per-keyframe easing and loops', async () => {
+    const animator = new Animator<string>(() => {});
+    const handle = animator.keyframes('u', [
+      { time: 1, value: 1, easing: 'ease-in' },
+      { time: 0, value: 0 },
+    ], { loop: 2 });
+
+    expect(animator.update(0, 0).get('u')).toBe(0);
+    expect(animator.update(0.5, 0.5).get('u')).toBe(0.125);
+    expect(animator.update(1.5, 1).get('u')).toBe(0.125);
+    expect(animator.update(2, 0.5).get('u')).toBe(1);
+    expect(await handle.finished).toBe(true);
+  });
+
+  it('rejects keyframes of different sizes', () => {
+    const animator = new Animator<string>(() => {});
+    expect(() => animator.keyframes('u', [])).toThrow();
+    expect(() => animator.keyframes('u', [{ time: 0, value: 0 }, { time: 1, value: [1, 1] }])).toThrow(/same size/);
+  });
+
+  it('holds tweens when time jumps backwards', async () => {
+    const animator = new Animator<string>(() => {});
+    const handle = animator.tween('u', 0, 1, { duration: 1, easing: 'linear' });
+
+    expect(animator.update(10, 0).get('u')).toBe(0);
+    expect(animator.update(10.5, 0.5).get('u')).toBe(0.5);
+    expect(animator.update(2, 0).get('u')).toBe(0.5);
+    expect(animator.update(2.5, 0.5).get('u')).toBe(1);
+    expect(await handle.finished).toBe(true);
+  });
+
+  it('holds keyframe tracks when time jumps backwards', () => {
+    const animator = new Animator<string>(() => {});
+    animator.keyframes('u', [{ time: 0, value: 0 }, { time: 2, value: 2 }]);
+
+    animator.update(5, 0);
+    expect(animator.update(6, 1).get('u')).toBe(1);
+    expect(animator.update(0, 0).get('u')).toBe(1);
+    expect(animator.update(0.5, 0.5).get('u')).toBe(1.5);
+  });
+});
+
+describe('ShaderUp instance animations', () => {
+  const vertexShader = `#version 300 es
+    in vec2 a_quadVertex;
+    in float a_scale;
+    void main() {
+      gl_Position = vec4(a_quadVertex * a_scale, 0.0, 1.0);
+    }
+  `;
+  const fragmentShader = `#version 300 es
+    precision highp float;
+    out vec4 fragColor;
+    void main() {
+      fragColor = vec4(1.0);
+    }
+  `;
+
+  it('animates one attribute of one instance on the playback clock', async () => {
+    const shader = new ShaderUp({
+      context: createRecordingContext(),
+      fragmentShader,
+      vertexShader,
+      frameloop: 'never',
+      renderMode: 'instanced',
+      numInstances: 2,
+      attributes: { a_scale: { size: 1 } },
+    });
+
+    const handle = shader.animateInstance(1, 'a_scale', 2, { duration: 1, easing: 'linear' });
+    shader.renderFrame(0);
+    shader.renderFrame(0.5);
+    expect(shader.instances!.read(1, 'a_scale')).toBe(1);
+    expect(shader.instances!.read(0, 'a_scale')).toBe(0);
+
+    shader.renderFrame(1);
+    expect(shader.instances!.read(1, 'a_scale')).toBe(2);
+    expect(await handle.finished).toBe(true);
+    expect(() => shader.animateInstance(2, 'a_scale', 1)).toThrow(RangeError);
+    shader.dispose();
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { createInstanceLayout } from '../src/attributes';
+
+describe('createInstanceLayout', () => {
+  it('aligns each attribute to its component size and the stride to the largest', () => {
+    const layout = createInstanceLayout({
+      a_position: { size: 3 },
+      a_color: { size: 4, type: 'UNSIGNED_BYTE', normalized: true },
+      a_id: { size: 1, type: 'UNSIGNED_SHORT' },
+      a_offset: { size: 1, type: 'UNSIGNED_BYTE' },
+      a_uv: { size: 2, type: 'HALF_FLOAT' },
+    });
+
+    expect(layout.attributes.map(({ name, offset }) => [name, offset])).toEqual([
+      ['a_position', 0],
+      ['a_color', 12],
+      ['a_id', 16],
+      ['a_offset', 18],
+      ['a_uv', 20],
+    ]);
+    expect(layout.stride).toBe(24);
+    expect(layout.attributes[1]).toMatchObject({ type: 'UNSIGNED_BYTE', normalized: true, size: 4 });
+  });
+
+  it('pads the stride of byte-only records to their own alignment', () => {
+    expect(createInstanceLayout({ a_flags: { size: 3, type: 'UNSIGNED_BYTE' } }).stride).toBe(3);
+    expect(createInstanceLayout({ a_flags: { size: 1, type: 'BYTE' }, a_id: { size: 1, type: 'SHORT' } }).stride).toBe(4);
+  });
+
+  it('advances per instance unless told otherwise', () => {
+    const layout = createInstanceLayout({
+      a_instance: { size: 1 },
+      a_vertex: { size: 1, instanced: false },
+      a_shared: { size: 1, divisor: 4 },
+      a_override: { size: 1, instanced: false, divisor: 2 },
+    });
+    expect(layout.attributes.map(attribute => attribute.divisor)).toEqual([1, 0, 4, 2]);
+  });
+
+  it("rejects records over WebGL's stride limit", () => {
+    const attributes = Object.fromEntries(Array.from({ length: 16 }, (_, i) => [`a_${i}`, { size: 4 as const }]));
+    expect(() => createInstanceLayout(attributes)).toThrow(/256 bytes/);
+    expect(createInstanceLayout({ ...attributes, a_15: { size: 3 } }).stride).toBe(252);
+  });
+});
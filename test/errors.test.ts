@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { parseShaderLog, ShaderCompileError } from '../src/errors';
+import { preprocess } from '../src/preprocessor';
+
+describe('parseShaderLog', () => {
+  const { code, lineMap } = preprocess('#version 300 es\n#include "noise"\nvoid main() {\n  gl_FragColor = x;\n}', {
+    chunks: { noise: 'float a;\nfloat noise = y;' },
+    defines: { FAST: true },
+  });
+
+  it('maps ANGLE log lines back to the file they came from', () => {
+    const [diagnostic] = parseShaderLog("ERROR: 0:4: 'y' : undeclared identifier", 'fragment', code, lineMap);
+    expect(diagnostic).toEqual({
+      stage: 'fragment',
+      severity: 'error',
+      source: 'noise',
+      line: 2,
+      column: null,
+      message: "'y' : undeclared identifier",
+      sourceLine: 'float noise = y;',
+    });
+  });
+
+  it('reads Mesa columns and NVIDIA warnings', () => {
+    const log = [
+      "0:6(18): error: `x' undeclared",
+      '0(1) : warning C7555: deprecated\0',
+    ].join('\n');
+    const [mesa, nvidia] = parseShaderLog(log, 'fragment', code, lineMap);
+
+    expect(mesa).toMatchObject({ source: 'main', line: 4, column: 18, message: "`x' undeclared", sourceLine: '  gl_FragColor = x;' });
+    expect(nvidia).toMatchObject({ severity: 'warning', source: 'main', line: 1, message: 'deprecated' });
+  });
+
+  it('keeps generated line numbers past the end of the line map', () => {
+    const [diagnostic] = parseShaderLog('ERROR: 0:40: syntax error', 'vertex', code, lineMap);
+    expect(diagnostic).toMatchObject({ source: 'main', line: 40, sourceLine: null });
+  });
+
+  it('keeps messages without a location', () => {
+    const diagnostics = parseShaderLog('ERROR: too many uniforms\n\nsomething odd', null);
+    expect(diagnostics).toMatchObject([
+      { stage: null, severity: 'error', line: null, message: 'too many uniforms' },
+      { severity: 'error', line: null, message: 'something odd' },
+    ]);
+  });
+
+  it('formats diagnostics into compile errors', () => {
+    const diagnostics = parseShaderLog("ERROR: 0:4: 'y' : undeclared identifier", 'fragment', code, lineMap);
+    const error = new ShaderCompileError('fragment', diagnostics);
+    expect(error.message).toBe("[ShaderUp] Fragment shader compilation failed:\n  noise:2: error: 'y' : undeclared identifier\n    > float noise = y;");
+  });
+});
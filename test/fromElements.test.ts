@@ -0,0 +1,63 @@
+// @vitest-environment happy-dom
+import { afterEach, describe, expect, it } from 'vitest';
+import { createRecordingContext, ShaderUp } from '../src/index';
+
+const vertexShader = `#version 300 es
+  in vec2 a_quadVertex;
+  in vec4 a_instanceRect;
+  uniform vec2 u_resolution;
+  void main() {
+    gl_Position = vec4((a_instanceRect.xy + a_quadVertex * a_instanceRect.zw) / u_resolution, 0.0, 1.0);
+  }
+`;
+
+const fragmentShader = `#version 300 es
+  precision highp float;
+  out vec4 fragColor;
+  void main() {
+    fragColor = vec4(1.0);
+  }
+`;
+
+/** Gives an element a fixed layout, which happy-dom does not compute. */
+function place(el: HTMLElement, x: number, y: number, width: number, height: number): void {
+  el.getBoundingClientRect = () => new DOMRect(x, y, width, height);
+  Object.defineProperty(el, 'clientWidth', { value: width });
+  Object.defineProperty(el, 'clientHeight', { value: height });
+}
+
+describe('ShaderUp.fromElements', () => {
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('rewrites instance rects when renderScale changes the drawing buffer', () => {
+    const canvas = document.createElement('canvas');
+    const button = document.createElement('button');
+    document.body.append(canvas, button);
+    place(canvas, 0, 0, 400, 200);
+    place(button, 100, 50, 80, 40);
+
+    const gl = createRecordingContext({ width: 400, height: 200 });
+    const shader = ShaderUp.fromElements({
+      canvas,
+      context: gl,
+      elements: [button],
+      fragmentShader,
+      vertexShader,
+      frameloop: 'never',
+      pixelRatio: 1,
+      cull: false,
+    });
+
+    shader.renderFrame();
+    expect(shader.instances!.read(0, 'a_instanceRect')).toEqual([100, 50, 80, 40]);
+
+    shader.renderScale = 0.5;
+    shader.renderFrame();
+    expect([canvas.width, canvas.height]).toEqual([200, 100]);
+    expect(shader.instances!.read(0, 'a_instanceRect')).toEqual([50, 25, 40, 20]);
+
+    shader.dispose();
+  });
+});
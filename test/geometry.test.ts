@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { createPlane, prepareGeometry, UNIT_QUAD } from '../src/geometry';
+
+describe('prepareGeometry', () => {
+  it('stores plain index arrays as 16-bit, or 32-bit when they need it', () => {
+    const attributes = { a_position: { size: 2 as const, data: [0, 0, 1, 0, 0, 1] } };
+
+    const small = prepareGeometry({ attributes, indices: [0, 1, 2, 65535] });
+    expect(small.indices).toBeInstanceOf(Uint16Array);
+    expect(small.count).toBe(4);
+
+    const large = prepareGeometry({ attributes, indices: [0, 1, 65536] });
+    expect(large.indices).toBeInstanceOf(Uint32Array);
+    expect(Array.from(large.indices!)).toEqual([0, 1, 65536]);
+  });
+
+  it('keeps typed index arrays as given', () => {
+    const indices = new Uint8Array([0, 1, 2]);
+    const prepared = prepareGeometry({ attributes: { a_position: { size: 2, data: [0, 0, 1, 0, 0, 1] } }, indices });
+    expect(prepared.indices).toBe(indices);
+  });
+
+  it('counts vertices by the shortest attribute without indices', () => {
+    const prepared = prepareGeometry({
+      attributes: {
+        a_position: { size: 3, data: new Array(12).fill(0) },
+        a_uv: { size: 2, data: new Uint8Array(6), normalized: true },
+        a_normal: { size: 4, data: new Uint16Array(20), type: 'HALF_FLOAT' },
+      },
+      primitive: 'points',
+    });
+
+    expect(prepared.count).toBe(3);
+    expect(prepared.mode).toBe('POINTS');
+    expect(prepared.indices).toBeNull();
+    expect(prepared.attributes.map(({ name, type, normalized }) => [name, type, normalized])).toEqual([
+      ['a_position', 'FLOAT', false],
+      ['a_uv', 'UNSIGNED_BYTE', true],
+      ['a_normal', 'HALF_FLOAT', false],
+    ]);
+    expect(prepared.attributes[0].data).toBeInstanceOf(Float32Array);
+  });
+
+  it('draws the unit quad as two triangles', () => {
+    expect(prepareGeometry(UNIT_QUAD)).toMatchObject({ count: 6, mode: 'TRIANGLES', indices: null });
+  });
+
+  it('draws generated planes through their indices', () => {
+    const prepared = prepareGeometry(createPlane({ widthSegments: 2, heightSegments: 3 }));
+    expect(prepared.count).toBe(2 * 3 * 6);
+  });
+
+  it('rejects data whose type cannot be inferred', () => {
+    const data = new Float64Array(3) as unknown as Float32Array;
+    expect(() => prepareGeometry({ attributes: { a_value: { size: 1, data } } })).toThrow(/a_value/);
+  });
+});
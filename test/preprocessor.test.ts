@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { preprocess, ShaderIncludeError } from '../src/preprocessor';
+
+const chunks = { noise: 'float noise(vec2 p) { return 0.0; }' };
+
+describe('preprocess', () => {
+  it('leaves includes inside comments alone', () => {
+    const source = [
+      '// #include "noise"',
+      '/*',
+      '#include "noise"',
+      '*/',
+      '/* one-line */ float a;',
+    ].join('\n');
+
+    const { code } = preprocess(source, { chunks });
+    expect(code).toBe(source);
+  });
+
+  it('expands includes after a block comment closes', () => {
+    const { code } = preprocess('/* a\n b */\n#include "noise"', { chunks });
+    expect(code).toBe(`/* a\n b */\n${chunks.noise}`);
+  });
+});
+
+describe('preprocess line maps', () => {
+  it('maps every line back to its source, defines and includes included', () => {
+    const { code, lineMap } = preprocess('#version 300 es\n#include "noise"\nvoid main() {}', {
+      chunks,
+      defines: { FAST: true, SLOW: false, STEPS: 4 },
+    });
+
+    expect(code.split('\n')).toEqual([
+      '#version 300 es',
+      '#define FAST',
+      '#define STEPS 4',
+      chunks.noise,
+      'void main() {}',
+    ]);
+    expect(lineMap).toEqual([
+      { source: 'main', line: 1 },
+      { source: '<defines>', line: 1 },
+      { source: '<defines>', line: 2 },
+      { source: 'noise', line: 1 },
+      { source: 'main', line: 3 },
+    ]);
+  });
+
+  it('maps the wrapper around the source', () => {
+    const { lineMap } = preprocess('float a;', {
+      name: 'effect',
+      wrapper: { name: '<wrapper>', header: 'precision highp float;', footer: 'void main() {}' },
+    });
+    expect(lineMap.map(location => location.source)).toEqual(['<wrapper>', 'effect', '<wrapper>']);
+  });
+});
+
+describe('preprocess includes', () => {
+  it('expands nested includes in place', () => {
+    const { code, lineMap } = preprocess('#include "fbm"\nvoid main() {}', {
+      chunks: { ...chunks, fbm: '#include "noise"\nfloat fbm(vec2 p) { return noise(p); }' },
+    });
+
+    expect(code).toBe(`${chunks.noise}\nfloat fbm(vec2 p) { return noise(p); }\nvoid main() {}`);
+    expect(lineMap).toEqual([
+      { source: 'noise', line: 1 },
+      { source: 'fbm', line: 2 },
+      { source: 'main', line: 2 },
+    ]);
+  });
+
+  it('includes shared and cyclic chunks once', () => {
+    const { code } = preprocess('#include "a"\n#include "b"\n#include "a"', {
+      chunks: { a: '#include "b"\nfloat a;', b: '#include "a"\nfloat b;' },
+    });
+    expect(code).toBe('float b;\nfloat a;');
+  });
+
+  it('reports unknown chunks with the including file and line', () => {
+    try {
+      preprocess('#include "a"', { chunks: { a: 'float a;\n#include "missing"' } });
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(ShaderIncludeError);
+      expect(error).toMatchObject({ include: 'missing', source: 'a', line: 2 });
+    }
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createRecordingContext, ShaderUp } from '../src/index';
+
+const fragmentShader = `#version 300 es
+  precision highp float;
+  uniform float u_intensity;
+  out vec4 fragColor;
+  void main() {
+    fragColor = vec4(u_intensity);
+  }
+`;
+
+const instancedVertexShader = `#version 300 es
+  in vec2 a_quadVertex;
+  in vec2 a_offset;
+  void main() {
+    gl_Position = vec4(a_quadVertex + a_offset, 0.0, 1.0);
+  }
+`;
+
+describe('ShaderUp with a recording context', () => {
+  it('uploads uniforms and draws a frame', () => {
+    const gl = createRecordingContext({ width: 200, height: 100 });
+    const shader = new ShaderUp({ context: gl, fragmentShader, frameloop: 'never' });
+
+    shader.uniforms.u_intensity = 0.5;
+    shader.renderFrame();
+
+    const upload = gl.callsTo('uniform1f').find(call => (call.args[0] as { name: string }).name === 'u_intensity');
+    expect(upload?.args[1]).toBe(0.5);
+    expect(gl.callsTo('drawArrays')).toHaveLength(1);
+    shader.dispose();
+  });
+
+  it('releases every GPU resource on dispose', () => {
+    const gl = createRecordingContext();
+    const shader = new ShaderUp({ context: gl, fragmentShader, frameloop: 'never' });
+    shader.renderFrame();
+    expect(gl.liveResources().program).toBe(1);
+
+    shader.dispose();
+    expect(gl.liveResources()).toEqual({
+      buffer: 0, texture: 0, framebuffer: 0, renderbuffer: 0, shader: 0, program: 0, vertexArray: 0,
+    });
+  });
+
+  it('grows the instance count for longer instance data', () => {
+    const gl = createRecordingContext();
+    const shader = new ShaderUp({
+      context: gl,
+      fragmentShader,
+      vertexShader: instancedVertexShader,
+      frameloop: 'never',
+      renderMode: 'instanced',
+      numInstances: 2,
+      attributes: { a_offset: { size: 2 } },
+    });
+
+    shader.setData(new Float32Array([1, 2, 3, 4, 5, 6]));
+    expect(shader.instanceCount).toBe(3);
+    expect(shader.instances!.read(2, 'a_offset')).toEqual([5, 6]);
+    shader.dispose();
+  });
+
+  it('keeps pending instance edits past the end of partial data', () => {
+    const gl = createRecordingContext();
+    const shader = new ShaderUp({
+      context: gl,
+      fragmentShader,
+      vertexShader: instancedVertexShader,
+      frameloop: 'never',
+      renderMode: 'instanced',
+      numInstances: 4,
+      attributes: { a_offset: { size: 2 } },
+    });
+    shader.renderFrame();
+
+    shader.instances!.set(3, 'a_offset', [7, 8]);
+    shader.setData(new Float32Array([1, 2]));
+    expect(shader.instances!.dirtyRange).toEqual([3, 4]);
+    shader.dispose();
+  });
+
+  it('leaves no texture behind when its format is unsupported', () => {
+    const gl = createRecordingContext({ version: 1 });
+    const shader = new ShaderUp({
+      context: gl,
+      fragmentShader: `
+        precision mediump float;
+        uniform sampler2D u_data;
+        void main() {
+          gl_FragColor = texture2D(u_data, vec2(0.5));
+        }
+      `,
+      frameloop: 'never',
+    });
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    shader.setTexture('u_data', { data: new Float32Array(4), width: 1, height: 1, format: 'RGBA32F' });
+    expect(warn).toHaveBeenCalledOnce();
+    expect(gl.liveResources().texture).toBe(0);
+    expect(shader.uniforms.u_dataResolution).toBeUndefined();
+
+    warn.mockRestore();
+    shader.dispose();
+  });
+});
@@ -6,8 +6,11 @@ export default defineConfig({
   // This is the key 'build' block for library mode
   build: {
     lib: {
-      // The entry file that contains your 'export class ShaderUp'
-      entry: resolve(__dirname, 'src/index.ts'), 
+      // The entry file that contains your 'export class ShaderUp', and the worker entry for `ShaderUp.inWorker()`
+      entry: {
+        index: resolve(__dirname, 'src/index.ts'),
+        worker: resolve(__dirname, 'src/worker.ts'),
+      },
       
       // The global variable name when used in a <script> tag
       name: 'ShaderUp', 
@@ -16,7 +19,7 @@ export default defineConfig({
       formats: ['es', 'cjs'], 
       
       // The filenames for the built files
-      fileName: (format) => `index.${format}.js`, 
+      fileName: (format, entryName) => `${entryName}.${format}.js`,
     },
     // Optional: Minify output for production
     minify: true,